@@ -1,40 +1,81 @@
-import { createAnthropic } from "@ai-sdk/anthropic";
-import { generateText } from "ai";
+import { generateObject, generateText } from "ai";
 import { readFile } from "fs/promises";
-import { buildAnalysisPrompt, detectCategory } from "./prompt.js";
 import {
-  computeFileHash,
-  getCacheEntry,
-  isCacheValid,
+  buildAnalysisPrompt,
+  buildChunkMergePrompt,
+  buildChunkPrompt,
+  detectCategory,
+} from "./prompt.js";
+import {
+  computeChunkHash,
+  computeContentHash,
+  computeFingerprint,
+  findCacheEntry,
+  getChunkEntry,
   setCacheEntry,
+  setChunkEntry,
+  LEGACY_MODEL_ID,
 } from "./cache.js";
+import { splitIntoChunks } from "./chunker.js";
+import type { Categories } from "./categories.js";
+import { FILE_NOTES_SCHEMA, placeholderNotes, repairNotesText } from "./notes.js";
+import { detectLanguage } from "./languages.js";
+import { countTokens } from "./tokens.js";
+import { getPricing, resolveModel, type ResolvedModel } from "./providers.js";
+import { isRateLimitError, RetriesExhaustedError, withRetry } from "./retry.js";
 import type {
   CacheData,
   CacheEntry,
+  CategoryDefinition,
   FileAnalysis,
   FileCategory,
+  FileNotes,
+  Language,
   CostSummary,
+  ModelConfig,
+  ModelCost,
+  ModelPricing,
+  AnalysisFailure,
+  UsageRecord,
 } from "./types.js";
 
-// Claude Opus 4.5 pricing (as of 2025)
-const PRICING = {
-  inputPer1M: 5.0,   // $5 per 1M input tokens
-  outputPer1M: 25.0,  // $25 per 1M output tokens
-};
+// Beyond this even chunking isn't worth it (vendored bundles, data dumps)
+const MAX_FILE_CHARS = 2_000_000;
+
+// Successful calls in a row before a lowered concurrency limit is raised again
+const RECOVERY_THRESHOLD = 10;
 
 interface AnalyzeFileResult {
   analysis: FileAnalysis;
   fromCache: boolean;
 }
 
+export type ProgressStatus = "cached" | "analyzed" | "failed";
+
 /**
- * Semaphore for controlling concurrent AI calls
+ * Semaphore for controlling concurrent AI calls.
+ * The limit shrinks when the provider rate-limits us and creeps back up
+ * after a run of successful calls.
  */
-class Semaphore {
+export class Semaphore {
   private queue: (() => void)[] = [];
   private running = 0;
+  private successStreak = 0;
+  private limitGeneration = 0;
+
+  constructor(
+    private maxConcurrent: number,
+    private readonly ceiling = maxConcurrent
+  ) {}
 
-  constructor(private maxConcurrent: number) {}
+  get limit(): number {
+    return this.maxConcurrent;
+  }
+
+  /** Changes every time the limit is lowered; see backOff */
+  get generation(): number {
+    return this.limitGeneration;
+  }
 
   async acquire(): Promise<void> {
     if (this.running < this.maxConcurrent) {
@@ -49,60 +90,99 @@ class Semaphore {
 
   release(): void {
     this.running--;
-    const next = this.queue.shift();
-    if (next) {
+    this.drain();
+  }
+
+  /**
+   * Halve the limit (never below 1) after a rate-limit response to a call
+   * started under `generation`. Calls that were already in flight when the
+   * limit was lowered hit the same burst, so they don't lower it again.
+   */
+  backOff(generation: number): void {
+    if (generation !== this.limitGeneration) return;
+    this.limitGeneration++;
+    this.successStreak = 0;
+    this.maxConcurrent = Math.max(1, Math.floor(this.maxConcurrent / 2));
+  }
+
+  /** Count a successful call, raising the limit by one after a streak */
+  recordSuccess(): void {
+    if (this.maxConcurrent >= this.ceiling) return;
+    if (++this.successStreak >= RECOVERY_THRESHOLD) {
+      this.successStreak = 0;
+      this.maxConcurrent++;
+      this.drain();
+    }
+  }
+
+  private drain(): void {
+    while (this.running < this.maxConcurrent && this.queue.length > 0) {
       this.running++;
-      next();
+      this.queue.shift()!();
     }
   }
 }
 
+/**
+ * Everything analyzeFile needs besides the file itself
+ */
+export interface AnalyzeContext {
+  cache: CacheData;
+  model: ResolvedModel;
+  semaphore: Semaphore;
+  maxRetries: number;
+  chunkTokens: number;     // Files above this many tokens are analyzed in chunks
+  categories: Categories;
+  signal?: AbortSignal;
+  onRetry?: () => void;
+  onChunk?: () => void;    // A chunk's notes were cached; its file may still fail
+}
+
 /**
  * Analyzes a single file, using cache if available
  */
 export async function analyzeFile(
   filePath: string,
   relativePath: string,
-  cache: CacheData,
-  anthropic: ReturnType<typeof createAnthropic>,
-  semaphore: Semaphore,
+  context: AnalyzeContext,
   onProgress?: (file: string, cached: boolean) => void
 ): Promise<AnalyzeFileResult> {
-  const hash = await computeFileHash(filePath);
-  const cachedEntry = getCacheEntry(cache, relativePath);
+  const { cache, model, semaphore, signal, categories } = context;
+  const content = await readFile(filePath, "utf-8");
+  const hash = computeContentHash(content);
+  const category = detectCategory(relativePath, content, categories);
+  const definitionHash = categories.fingerprint(category);
+  const language = detectLanguage(relativePath, content);
+  const definition = categories.get(category);
+  const fingerprint = promptFingerprint(category, language, definition, model.id);
 
-  // Return cached result if valid
-  if (isCacheValid(cachedEntry, hash)) {
+  // Same content under the same prompts and model, at this path or any other
+  const cachedEntry = findCacheEntry(cache, relativePath, { hash, category, definitionHash, fingerprint, model: model.id });
+  if (cachedEntry) {
+    setCacheEntry(cache, relativePath, cachedEntry);
     onProgress?.(relativePath, true);
-    return {
-      analysis: {
-        path: filePath,
-        relativePath,
-        category: cachedEntry!.category,
-        summary: cachedEntry!.summary,
-        hash,
-        tokens: cachedEntry!.tokens,
-      },
-      fromCache: true,
-    };
+    return { analysis: analysisFromCache(filePath, relativePath, cachedEntry), fromCache: true };
   }
 
   // Acquire semaphore before making AI call
   await semaphore.acquire();
 
   try {
-    const content = await readFile(filePath, "utf-8");
-    const category = detectCategory(relativePath, content);
+    // Once interrupted, queued files are left for the next run
+    signal?.throwIfAborted();
 
-    // Skip very large files or minified files
-    if (content.length > 100000 || isMinified(content)) {
-      const skippedSummary = `## ${relativePath}\n**Purpose:** [Skipped - file too large or minified]\n**Category:** ${category}`;
+    // Skip minified files and files too big to be worth chunking
+    if (content.length > MAX_FILE_CHARS || isMinified(content)) {
+      const skippedNotes = placeholderNotes("file too large or minified");
       const entry: CacheEntry = {
         hash,
-        summary: skippedSummary,
+        notes: skippedNotes,
         category,
         analyzedAt: new Date().toISOString(),
+        model: model.id,
         tokens: { input: 0, output: 0 },
+        ...(definitionHash ? { definitionHash } : {}),
+        fingerprint,
       };
       setCacheEntry(cache, relativePath, entry);
       onProgress?.(relativePath, false);
@@ -112,36 +192,33 @@ export async function analyzeFile(
           path: filePath,
           relativePath,
           category,
-          summary: skippedSummary,
+          notes: skippedNotes,
           hash,
+          model: model.id,
           tokens: { input: 0, output: 0 },
         },
         fromCache: false,
       };
     }
 
-    const prompt = buildAnalysisPrompt(relativePath, content, category);
-
-    const result = await generateText({
-      model: anthropic("claude-opus-4-5-20251101"),
-      prompt,
-      maxTokens: 4096,
-    });
-
-    const tokens = {
-      input: result.usage?.promptTokens ?? 0,
-      output: result.usage?.completionTokens ?? 0,
-    };
-
-    const summary = result.text;
+    const { notes, tokens, chunks } = (await countTokens(content)) > context.chunkTokens
+      ? await analyzeInChunks(relativePath, content, category, language, fingerprint, context)
+      : {
+          ...(await generateNotes(context, buildAnalysisPrompt(relativePath, content, category, language, definition), 4096)),
+          chunks: undefined,
+        };
 
     // Update cache
     const entry: CacheEntry = {
       hash,
-      summary,
+      notes,
       category,
       analyzedAt: new Date().toISOString(),
+      model: model.id,
       tokens,
+      ...(chunks ? { chunks } : {}),
+      ...(definitionHash ? { definitionHash } : {}),
+      fingerprint,
     };
     setCacheEntry(cache, relativePath, entry);
     onProgress?.(relativePath, false);
@@ -151,8 +228,9 @@ export async function analyzeFile(
         path: filePath,
         relativePath,
         category,
-        summary,
+        notes,
         hash,
+        model: model.id,
         tokens,
       },
       fromCache: false,
@@ -163,68 +241,333 @@ export async function analyzeFile(
 }
 
 /**
- * Analyzes multiple files in parallel with controlled concurrency
+ * Analyzes a large file chunk by chunk (split on top-level declarations),
+ * then merges the chunk notes into one structured analysis. Chunks are cached by their
+ * own content hash, so editing one declaration only re-analyzes its chunk
+ * (plus the merge).
+ */
+async function analyzeInChunks(
+  relativePath: string,
+  content: string,
+  category: FileCategory,
+  language: Language,
+  fingerprint: string,
+  context: AnalyzeContext
+): Promise<{ notes: FileNotes; tokens: { input: number; output: number }; chunks: string[] }> {
+  const { cache, model, signal, categories } = context;
+  const definition = categories.get(category);
+  const chunks = await splitIntoChunks(relativePath, content, context.chunkTokens);
+  const declarations = chunks.flatMap(c => c.declarations);
+  const tokens = { input: 0, output: 0 };
+  const chunkHashes: string[] = [];
+  const chunkNotes: { startLine: number; endLine: number; notes: string }[] = [];
+
+  for (const [index, chunk] of chunks.entries()) {
+    // Chunk notes depend on the prompts and model as well as the chunk itself
+    const chunkHash = computeChunkHash(fingerprint, chunk.content);
+    let entry = getChunkEntry(cache, chunkHash);
+
+    if (!entry) {
+      signal?.throwIfAborted();
+      const prompt = buildChunkPrompt(
+        relativePath,
+        category,
+        language,
+        { ...chunk, index, total: chunks.length },
+        declarations,
+        definition
+      );
+      const result = await generateMarkdown(context, prompt, 4096);
+      entry = {
+        summary: result.text,
+        analyzedAt: new Date().toISOString(),
+        model: model.id,
+        tokens: result.tokens,
+      };
+      setChunkEntry(cache, chunkHash, entry);
+      context.onChunk?.();
+    }
+
+    tokens.input += entry.tokens.input;
+    tokens.output += entry.tokens.output;
+    chunkHashes.push(chunkHash);
+    chunkNotes.push({ startLine: chunk.startLine, endLine: chunk.endLine, notes: entry.summary });
+  }
+
+  const merged = await generateNotes(
+    context,
+    buildChunkMergePrompt(relativePath, category, language, chunkNotes, definition),
+    8192
+  );
+  tokens.input += merged.tokens.input;
+  tokens.output += merged.tokens.output;
+
+  return { notes: merged.notes, tokens, chunks: chunkHashes };
+}
+
+/**
+ * Fingerprints what shapes a file's notes besides its content: the prompts
+ * it would be analyzed with (rendered without the path and content, so a
+ * rename doesn't change it) and the model
+ */
+function promptFingerprint(
+  category: FileCategory,
+  language: Language,
+  definition: CategoryDefinition | undefined,
+  modelId: string
+): string {
+  const chunk = { content: "", startLine: 0, endLine: 0, index: 0, total: 1 };
+  return computeFingerprint([
+    modelId,
+    buildAnalysisPrompt("", "", category, language, definition),
+    buildChunkPrompt("", category, language, chunk, [], definition),
+    buildChunkMergePrompt("", category, language, [], definition),
+  ]);
+}
+
+/**
+ * Structured analysis of a file. Malformed JSON is repaired where possible;
+ * otherwise the call fails and is retried like any transient error.
+ */
+async function generateNotes(
+  context: AnalyzeContext,
+  prompt: string,
+  maxTokens: number
+): Promise<{ notes: FileNotes; tokens: { input: number; output: number } }> {
+  const { model } = context;
+
+  const result = await callModel(context, () => generateObject({
+    model: model.languageModel,
+    mode: model.objectMode,
+    schema: FILE_NOTES_SCHEMA,
+    schemaName: "file_notes",
+    prompt,
+    maxTokens,
+    maxRetries: 0,
+    experimental_repairText: repairNotesText,
+  }));
+
+  return { notes: result.object, tokens: toTokens(result.usage) };
+}
+
+/**
+ * Free-form markdown, used for the intermediate notes on each chunk
+ */
+async function generateMarkdown(
+  context: AnalyzeContext,
+  prompt: string,
+  maxTokens: number
+): Promise<{ text: string; tokens: { input: number; output: number } }> {
+  const result = await callModel(context, () => generateText({
+    model: context.model.languageModel,
+    prompt,
+    maxTokens,
+    maxRetries: 0,
+  }));
+
+  return { text: result.text, tokens: toTokens(result.usage) };
+}
+
+/**
+ * One model call with our retry policy. We retry ourselves (not the SDK)
+ * so rate limits can feed back into the semaphore.
+ */
+async function callModel<T>(context: AnalyzeContext, call: () => Promise<T>): Promise<T> {
+  const { semaphore } = context;
+
+  // The limit the current attempt was started under
+  let generation = semaphore.generation;
+  const result = await withRetry(() => {
+    generation = semaphore.generation;
+    return call();
+  }, {
+    maxRetries: context.maxRetries,
+    signal: context.signal,
+    onRetry: ({ rateLimited }) => {
+      if (rateLimited) semaphore.backOff(generation);
+      context.onRetry?.();
+    },
+  });
+  semaphore.recordSuccess();
+
+  return result;
+}
+
+function toTokens(usage: { promptTokens?: number; completionTokens?: number } | undefined) {
+  return {
+    input: usage?.promptTokens ?? 0,
+    output: usage?.completionTokens ?? 0,
+  };
+}
+
+/**
+ * The analysis a cache entry stands for, without reading the file
+ */
+export function analysisFromCache(filePath: string, relativePath: string, entry: CacheEntry): FileAnalysis {
+  return {
+    path: filePath,
+    relativePath,
+    category: entry.category,
+    notes: entry.notes,
+    hash: entry.hash,
+    model: entry.model ?? LEGACY_MODEL_ID,
+    tokens: entry.tokens,
+  };
+}
+
+/**
+ * The settings that shape a file's notes. A workspace with its own config
+ * analyzes its files with its own.
+ */
+export interface AnalysisSettings {
+  model: ModelConfig;
+  categories: Categories;
+  chunkTokens: number;
+}
+
+export interface AnalyzeFilesOptions extends AnalysisSettings {
+  concurrency: number;
+  maxRetries: number;
+  settingsFor?: (relativePath: string) => AnalysisSettings | undefined;  // Per-file settings, when they differ from the above
+  signal?: AbortSignal;  // Abort to stop starting new calls; in-flight calls finish
+  onProgress?: (file: string, status: ProgressStatus, current: number, total: number) => void;
+  onChunk?: () => void;  // A chunk of a large file was cached, before the file is done
+}
+
+export interface AnalyzeFilesResult {
+  analyses: FileAnalysis[];
+  cached: number;
+  analyzed: number;
+  failures: AnalysisFailure[];
+  interrupted: number;   // Files never started because the run was aborted
+  retries: number;
+  finalConcurrency: number;
+}
+
+/**
+ * Analyzes multiple files in parallel with controlled concurrency.
+ * A file that still fails after retries is reported in `failures` instead of
+ * failing the whole run; it is never written to the cache.
  */
 export async function analyzeFiles(
   files: { absolute: string; relative: string }[],
   cache: CacheData,
-  concurrency: number,
-  onProgress?: (file: string, cached: boolean, current: number, total: number) => void
-): Promise<{ analyses: FileAnalysis[]; cached: number; analyzed: number }> {
-  const anthropic = createAnthropic({
-    apiKey: process.env.ANTHROPIC_API_KEY,
-  });
+  options: AnalyzeFilesOptions
+): Promise<AnalyzeFilesResult> {
+  const { signal, onProgress } = options;
 
-  const semaphore = new Semaphore(concurrency);
+  // One semaphore for the whole run, whichever model each file goes to
+  const semaphore = new Semaphore(options.concurrency);
+  const contexts = new Map<AnalysisSettings, AnalyzeContext>();
+  const contextFor = (relativePath: string): AnalyzeContext => {
+    const settings = options.settingsFor?.(relativePath) ?? options;
+    let context = contexts.get(settings);
+    if (!context) {
+      context = {
+        cache,
+        model: resolveModel(settings.model),
+        semaphore,
+        maxRetries: options.maxRetries,
+        chunkTokens: settings.chunkTokens,
+        categories: settings.categories,
+        signal,
+        onRetry: () => retries++,
+        onChunk: options.onChunk,
+      };
+      contexts.set(settings, context);
+    }
+    return context;
+  };
   let completed = 0;
   let cachedCount = 0;
   let analyzedCount = 0;
+  let retries = 0;
+  let interrupted = 0;
+  const failures: AnalysisFailure[] = [];
 
   const results = await Promise.all(
     files.map(async ({ absolute, relative }) => {
-      const result = await analyzeFile(
-        absolute,
-        relative,
-        cache,
-        anthropic,
-        semaphore,
-        (file, cached) => {
-          completed++;
-          if (cached) cachedCount++;
-          else analyzedCount++;
-          onProgress?.(file, cached, completed, files.length);
+      try {
+        const result = await analyzeFile(
+          absolute,
+          relative,
+          contextFor(relative),
+          (file, cached) => {
+            completed++;
+            if (cached) cachedCount++;
+            else analyzedCount++;
+            onProgress?.(file, cached ? "cached" : "analyzed", completed, files.length);
+          }
+        );
+        return result.analysis;
+      } catch (err) {
+        if (signal?.aborted && !(err instanceof RetriesExhaustedError)) {
+          interrupted++;
+          return undefined;
         }
-      );
-      return result.analysis;
+
+        const exhausted = err instanceof RetriesExhaustedError ? err : undefined;
+        failures.push({
+          relativePath: relative,
+          error: exhausted ? exhausted.message : (err as Error).message ?? String(err),
+          attempts: exhausted?.attempts ?? 1,
+          rateLimited: isRateLimitError(exhausted?.lastError),
+        });
+        completed++;
+        onProgress?.(relative, "failed", completed, files.length);
+        return undefined;
+      }
     })
   );
 
   return {
-    analyses: results,
+    analyses: results.filter((a): a is FileAnalysis => a !== undefined),
     cached: cachedCount,
     analyzed: analyzedCount,
+    failures: failures.sort((a, b) => a.relativePath.localeCompare(b.relativePath)),
+    interrupted,
+    retries,
+    finalConcurrency: semaphore.limit,
   };
 }
 
 /**
- * Calculate cost from token usage
+ * Calculate cost from token usage (file summaries and folder rollups), priced per model.
+ * `pricingOverrides` is keyed by model ID and wins over the built-in table.
  */
-export function calculateCost(analyses: FileAnalysis[]): CostSummary {
-  const totals = analyses.reduce(
-    (acc, a) => ({
-      input: acc.input + a.tokens.input,
-      output: acc.output + a.tokens.output,
-    }),
-    { input: 0, output: 0 }
-  );
+export function calculateCost(
+  usages: UsageRecord[],
+  pricingOverrides?: Record<string, ModelPricing>
+): CostSummary {
+  const byModel: Record<string, ModelCost> = {};
+
+  for (const a of usages) {
+    const entry = (byModel[a.model] ??= {
+      summaries: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      estimatedCost: 0,
+      priced: getPricing(a.model, pricingOverrides) !== undefined,
+    });
+    entry.summaries++;
+    entry.inputTokens += a.tokens.input;
+    entry.outputTokens += a.tokens.output;
+  }
 
-  const inputCost = (totals.input / 1_000_000) * PRICING.inputPer1M;
-  const outputCost = (totals.output / 1_000_000) * PRICING.outputPer1M;
+  for (const [modelId, entry] of Object.entries(byModel)) {
+    const pricing = getPricing(modelId, pricingOverrides);
+    if (!pricing) continue;
+    entry.estimatedCost =
+      (entry.inputTokens / 1_000_000) * pricing.inputPer1M +
+      (entry.outputTokens / 1_000_000) * pricing.outputPer1M;
+  }
 
+  const models = Object.values(byModel);
   return {
-    inputTokens: totals.input,
-    outputTokens: totals.output,
-    estimatedCost: inputCost + outputCost,
+    inputTokens: models.reduce((sum, m) => sum + m.inputTokens, 0),
+    outputTokens: models.reduce((sum, m) => sum + m.outputTokens, 0),
+    estimatedCost: models.reduce((sum, m) => sum + m.estimatedCost, 0),
+    byModel,
   };
 }
 
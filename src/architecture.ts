@@ -0,0 +1,96 @@
+import { createHash } from "crypto";
+import { generateText } from "ai";
+import { buildArchitecturePrompt } from "./prompt.js";
+import { resolveModel } from "./providers.js";
+import { withRetry } from "./retry.js";
+import type {
+  ArchitectureEntry,
+  CacheData,
+  FolderInfo,
+  FolderRollup,
+  ModelConfig,
+} from "./types.js";
+
+// Past this size the outline drops per-file purposes and keeps only paths
+const MAX_OUTLINE_CHARS = 120_000;
+
+// Bump when buildArchitecturePrompt changes enough to warrant regenerating
+const ARCHITECTURE_PROMPT_VERSION = 1;
+
+export interface ArchitectureOptions {
+  model: ModelConfig;
+  maxRetries: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Synthesizes the root "Architecture" section from the whole folder tree.
+ * The result is cached under a hash of its inputs, so it is only regenerated
+ * when a file summary or folder rollup changed.
+ */
+export async function generateArchitectureOverview(
+  folders: FolderInfo[],
+  rollups: Map<string, FolderRollup>,
+  cache: CacheData,
+  options: ArchitectureOptions
+): Promise<{ entry: ArchitectureEntry; fromCache: boolean }> {
+  const outline = buildOutline(folders, rollups);
+  const inputHash = createHash("sha256")
+    .update(`v${ARCHITECTURE_PROMPT_VERSION}\n${outline}`)
+    .digest("hex")
+    .slice(0, 16);
+
+  if (cache.architecture?.inputHash === inputHash) {
+    return { entry: cache.architecture, fromCache: true };
+  }
+
+  const model = resolveModel(options.model);
+  const result = await withRetry(
+    () => generateText({
+      model: model.languageModel,
+      prompt: buildArchitecturePrompt(outline),
+      maxTokens: 2048,
+      maxRetries: 0,
+    }),
+    { maxRetries: options.maxRetries, signal: options.signal }
+  );
+
+  const entry: ArchitectureEntry = {
+    inputHash,
+    content: result.text.trim(),
+    analyzedAt: new Date().toISOString(),
+    model: model.id,
+    tokens: {
+      input: result.usage?.promptTokens ?? 0,
+      output: result.usage?.completionTokens ?? 0,
+    },
+  };
+  cache.architecture = entry;
+
+  return { entry, fromCache: false };
+}
+
+/**
+ * Indented folder tree: folders with their rollup description, files with
+ * category and purpose. Falls back to paths only for very large projects.
+ */
+function buildOutline(folders: FolderInfo[], rollups: Map<string, FolderRollup>): string {
+  const render = (withPurposes: boolean) => {
+    const lines: string[] = [];
+    for (const folder of folders) {
+      const indent = "  ".repeat(folder.depth);
+      const description = rollups.get(folder.path)?.description;
+      lines.push(`${indent}${folder.path === "." ? "./" : `${folder.name}/`}${description ? ` - ${description}` : ""}`);
+
+      for (const file of folder.files) {
+        const name = file.relativePath.split("/").pop()!;
+        const purpose = withPurposes ? file.notes.purpose : undefined;
+        lines.push(`${indent}  ${name} (${file.category})${purpose ? ` - ${purpose}` : ""}`);
+      }
+    }
+    return lines.join("\n");
+  };
+
+  const full = render(true);
+  return full.length <= MAX_OUTLINE_CHARS ? full : render(false);
+}
@@ -0,0 +1,327 @@
+import { resolve } from "path";
+import { renderBriefNotes, renderFileNotes } from "./output.js";
+import { countTokens } from "./tokens.js";
+import { discoverFiles, folderAncestors } from "./discovery.js";
+import { getCacheEntry, loadCache } from "./cache.js";
+import { readCommittedNotes, seedCache } from "./committed.js";
+import { analysisFromCache } from "./analyzer.js";
+import type { Categories } from "./categories.js";
+import type { CliffnotesConfig, FileAnalysis, FolderRollup } from "./types.js";
+
+// Most detailed first; a file only ever moves down this list
+const LEVELS = ["full", "brief", "line"] as const;
+type DetailLevel = typeof LEVELS[number];
+
+export interface BundleOptions {
+  maxTokens: number;
+  projectName: string;
+  categories: Categories;
+  rollups: Map<string, FolderRollup>;
+  architecture?: string;
+  outputFile: string;
+}
+
+/**
+ * What had to give to fit the budget
+ */
+export interface BundleReport {
+  maxTokens: number;
+  tokens: number;
+  fits: boolean;               // False when even the most condensed form is over budget
+  files: number;
+  full: number;                // Files with their complete notes
+  brief: number;               // Purpose plus exports and endpoints
+  oneLine: number;             // Purpose only
+  collapsedFolders: { path: string; files: number }[];
+  architectureDropped: boolean;
+}
+
+export interface Bundle {
+  content: string;
+  report: BundleReport;
+}
+
+interface FolderEntry {
+  path: string;
+  depth: number;
+  files: number;               // Including subfolders
+}
+
+/**
+ * The notes that already exist for the project's files: the cache, topped
+ * up from the committed notes. `missing` lists files that have none yet.
+ */
+export async function loadExistingNotes(rootDir: string, config: CliffnotesConfig): Promise<{
+  analyses: FileAnalysis[];
+  rollups: Map<string, FolderRollup>;
+  architecture?: string;
+  missing: string[];
+}> {
+  const files = await discoverFiles(rootDir, config);
+  const cache = await loadCache(resolve(rootDir, config.cacheFile));
+  const committed = await readCommittedNotes(rootDir, config);
+  if (committed) seedCache(cache, committed);
+
+  const analyses: FileAnalysis[] = [];
+  const missing: string[] = [];
+  for (const file of files) {
+    const entry = getCacheEntry(cache, file.relative);
+    if (entry) analyses.push(analysisFromCache(file.absolute, file.relative, entry));
+    else missing.push(file.relative);
+  }
+
+  return {
+    analyses,
+    rollups: new Map(Object.entries(cache.rollups ?? {})),
+    architecture: cache.architecture?.content,
+    missing,
+  };
+}
+
+/**
+ * Condenses the notes of the whole project into one document within
+ * `maxTokens`. Everything starts at full detail; then, from the lowest
+ * priority category up, files are cut to a brief entry, then to one line,
+ * and finally the deepest folders are collapsed into a single line each.
+ * Stops at the fewest cuts that fit, so the result lands just under the
+ * budget. Uses only existing notes - no API calls.
+ */
+export async function buildBundle(files: FileAnalysis[], options: BundleOptions): Promise<Bundle> {
+  const { categories, maxTokens } = options;
+
+  // Highest priority first: category order (schemas, migrations, routers, ...), then path
+  const order = new Map(categories.sort(new Set(files.map(f => f.category))).map((c, i) => [c, i]));
+  const ranked = [...files].sort((a, b) =>
+    order.get(a.category)! - order.get(b.category)! || a.relativePath.localeCompare(b.relativePath));
+
+  const state = {
+    levels: new Map<string, DetailLevel>(ranked.map(f => [f.relativePath, "full"])),
+    collapsed: new Set<string>(),
+    architecture: Boolean(options.architecture),
+  };
+  const folders = folderEntries(files);
+
+  // Each step makes the document smaller; a step returns false when there's nothing left to cut
+  const steps: (() => boolean)[] = [
+    ...LEVELS.slice(1).map(level => () => demoteNext(ranked, state.levels, level)),
+    () => collapseNext(folders, state.collapsed),
+    () => {
+      if (!state.architecture) return false;
+      state.architecture = false;
+      return true;
+    },
+  ];
+
+  // Cuts happen in a fixed order, so the state is just how far along that order we are
+  let step = 0;
+  const cut = (n: number): number => {
+    let made = 0;
+    while (made < n && step < steps.length) {
+      if (steps[step]()) made++;
+      else step++;
+    }
+    return made;
+  };
+  const snapshot = () => ({
+    step,
+    levels: new Map(state.levels),
+    collapsed: new Set(state.collapsed),
+    architecture: state.architecture,
+  });
+  const restore = (saved: ReturnType<typeof snapshot>) => {
+    step = saved.step;
+    state.levels = new Map(saved.levels);
+    state.collapsed = new Set(saved.collapsed);
+    state.architecture = saved.architecture;
+  };
+
+  let content = "";
+  let tokens = 0;
+  const measure = async () => {
+    content = render(ranked, folders, state, options);
+    tokens = await countTokens(content);
+  };
+
+  await measure();
+  let savedPerCut = 200; // First guess; replaced by what the last batch actually saved
+  while (tokens > maxTokens && step < steps.length) {
+    // Cut in batches sized by the overshoot so large projects don't need a recount per file
+    const before = snapshot();
+    const beforeTokens = tokens;
+    const made = cut(Math.max(1, Math.ceil((tokens - maxTokens) / savedPerCut)));
+    await measure();
+
+    if (tokens < maxTokens && made > 1) {
+      // The batch went under budget: bisect it for the fewest cuts that still fit,
+      // so files it cut needlessly are restored
+      let over = 0;
+      let fits = made;
+      while (fits - over > 1) {
+        const mid = Math.floor((over + fits) / 2);
+        restore(before);
+        cut(mid);
+        await measure();
+        if (tokens <= maxTokens) fits = mid;
+        else over = mid;
+      }
+      restore(before);
+      cut(fits);
+      await measure();
+      break;
+    }
+    savedPerCut = Math.max(1, (beforeTokens - tokens) / Math.max(1, made));
+  }
+
+  const counts = { full: 0, brief: 0, line: 0 };
+  for (const file of visibleFiles(ranked, state.collapsed)) counts[state.levels.get(file.relativePath)!]++;
+
+  return {
+    content,
+    report: {
+      maxTokens,
+      tokens,
+      fits: tokens <= maxTokens,
+      files: files.length,
+      full: counts.full,
+      brief: counts.brief,
+      oneLine: counts.line,
+      collapsedFolders: outermost(state.collapsed).map(path => ({
+        path,
+        files: folders.get(path)?.files ?? 0,
+      })),
+      architectureDropped: Boolean(options.architecture) && !state.architecture,
+    },
+  };
+}
+
+/**
+ * Moves the lowest-priority file still above `level` down to it
+ */
+function demoteNext(ranked: FileAnalysis[], levels: Map<string, DetailLevel>, level: DetailLevel): boolean {
+  for (let i = ranked.length - 1; i >= 0; i--) {
+    const path = ranked[i].relativePath;
+    if (LEVELS.indexOf(levels.get(path)!) < LEVELS.indexOf(level)) {
+      levels.set(path, level);
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Collapses the deepest folder that isn't collapsed yet. The root is never
+ * collapsed, so top-level folders and root files always remain.
+ */
+function collapseNext(folders: Map<string, FolderEntry>, collapsed: Set<string>): boolean {
+  const candidates = [...folders.values()]
+    .filter(f => f.path !== "." && !collapsed.has(f.path) && !hiddenBy(f.path, collapsed))
+    .sort((a, b) => b.depth - a.depth || b.files - a.files);
+  if (candidates.length === 0) return false;
+  collapsed.add(candidates[0].path);
+  return true;
+}
+
+function render(
+  ranked: FileAnalysis[],
+  folders: Map<string, FolderEntry>,
+  state: { levels: Map<string, DetailLevel>; collapsed: Set<string>; architecture: boolean },
+  options: BundleOptions
+): string {
+  const { categories, rollups, outputFile } = options;
+  const visible = visibleFiles(ranked, state.collapsed);
+  const sections: string[] = [];
+
+  const counts = { full: 0, brief: 0, line: 0 };
+  for (const file of visible) counts[state.levels.get(file.relativePath)!]++;
+  const hidden = ranked.length - visible.length;
+  const condensed = counts.brief + counts.line + hidden > 0
+    ? `\n> Condensed to fit ${options.maxTokens.toLocaleString()} tokens: ${counts.full} files in full, ${counts.brief} brief, ${counts.line} one-line${hidden > 0 ? `, ${hidden} in collapsed folders` : ""}. Each folder's ${outputFile} has the complete notes.\n`
+    : "";
+
+  sections.push(`# ${options.projectName} - Codebase Bundle
+
+> All ${ranked.length} files of the project in one document, most important first.
+${condensed}`);
+
+  if (options.architecture && state.architecture) {
+    sections.push(`## Architecture
+
+${options.architecture.trim()}
+`);
+  }
+
+  const structure = [...folders.values()]
+    .filter(f => f.path !== "." && !hiddenBy(f.path, state.collapsed))
+    .map(folder => {
+      const indent = "  ".repeat(folder.depth - 1);
+      const description = rollups.get(folder.path)?.description;
+      const collapsed = state.collapsed.has(folder.path) ? ", collapsed" : "";
+      return `${indent}- \`${folder.path}/\` (${folder.files} file${folder.files === 1 ? "" : "s"}${collapsed})${description ? ` - ${oneLine(description)}` : ""}`;
+    });
+  if (structure.length > 0) {
+    sections.push(`## Structure
+
+${structure.join("\n")}
+`);
+  }
+
+  // Files by category, in priority order: full sections first, then the condensed entries
+  for (const category of categories.sort(new Set(visible.map(f => f.category)))) {
+    const inCategory = visible.filter(f => f.category === category);
+    const full = inCategory.filter(f => state.levels.get(f.relativePath) === "full");
+    const short = inCategory.filter(f => state.levels.get(f.relativePath) !== "full");
+
+    const parts = [`## ${categories.label(category)}\n`];
+    if (full.length > 0) {
+      parts.push(full.map(f => renderFileNotes(f).replace(/^## /, "### ")).join("\n\n---\n\n") + "\n");
+    }
+    if (short.length > 0) {
+      parts.push(short.map(f => renderShort(f, state.levels.get(f.relativePath)!)).join("\n") + "\n");
+    }
+    sections.push(parts.join("\n"));
+  }
+
+  return sections.join("\n");
+}
+
+function renderShort(file: FileAnalysis, level: DetailLevel): string {
+  const entry = level === "line" ? oneLine(file.notes.purpose) : renderBriefNotes(file);
+  return `- \`${file.relativePath}\` - ${entry}`;
+}
+
+/**
+ * Every folder holding files, with the number of files at or below it
+ */
+function folderEntries(files: FileAnalysis[]): Map<string, FolderEntry> {
+  const folders = new Map<string, FolderEntry>();
+  for (const file of files) {
+    for (const path of folderAncestors(file.relativePath)) {
+      const entry = folders.get(path) ?? { path, depth: path === "." ? 0 : path.split("/").length, files: 0 };
+      entry.files++;
+      folders.set(path, entry);
+    }
+  }
+  return new Map([...folders.entries()].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function visibleFiles(ranked: FileAnalysis[], collapsed: Set<string>): FileAnalysis[] {
+  return ranked.filter(f => !folderAncestors(f.relativePath).some(folder => collapsed.has(folder)));
+}
+
+/**
+ * Whether a folder is inside a collapsed folder (not counting itself)
+ */
+function hiddenBy(path: string, collapsed: Set<string>): boolean {
+  return [...collapsed].some(folder => path.startsWith(folder + "/"));
+}
+
+/**
+ * Collapsed folders that aren't inside another collapsed folder
+ */
+function outermost(collapsed: Set<string>): string[] {
+  return [...collapsed].filter(path => !hiddenBy(path, collapsed)).sort();
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
@@ -1,41 +1,191 @@
 import { createHash } from "crypto";
-import { readFile, writeFile } from "fs/promises";
+import { readFile, rename, unlink, writeFile } from "fs/promises";
 import { existsSync } from "fs";
-import type { CacheData, CacheEntry } from "./types.js";
+import { notesFromMarkdown } from "./notes.js";
+import { folderAncestors } from "./discovery.js";
+import type { CacheData, CacheEntry, ChunkEntry } from "./types.js";
 
-const CACHE_VERSION = 1;
+const CACHE_VERSION = 2;
+
+// Cache entries written before model selection existed all came from this model
+export const LEGACY_MODEL_ID = "anthropic/claude-opus-4-5-20251101";
+
+/**
+ * What `cliffnotes cache stats` reports
+ */
+export interface CacheStats {
+  files: number;              // Paths with notes
+  entries: number;
+  shared: number;             // Entries used by more than one path (identical files)
+  unreferenced: number;       // Kept for renames and reverts until `cache gc`
+  legacy: number;             // Entries without a fingerprint, from v1 or the committed notes
+  chunks: number;
+  rollups: number;
+  architecture: boolean;
+  models: Record<string, number>;             // Entries per model
+  tokens: { input: number; output: number };  // Spent producing the entries
+}
 
 export async function loadCache(cachePath: string): Promise<CacheData> {
   if (!existsSync(cachePath)) {
-    return { version: CACHE_VERSION, entries: {} };
+    return emptyCache();
   }
 
   try {
     const raw = await readFile(cachePath, "utf-8");
-    const data = JSON.parse(raw) as CacheData;
+    return parseCache(JSON.parse(raw)) ?? emptyCache();
+  } catch {
+    return emptyCache();
+  }
+}
+
+/**
+ * Reads cache data of any known version; v1 caches are migrated rather than
+ * thrown away. Returns undefined for anything else.
+ */
+export function parseCache(data: unknown): CacheData | undefined {
+  const cache = data as CacheData | undefined;
+  if (!cache || typeof cache !== "object" || !cache.entries) return undefined;
+  if (cache.version !== 1 && cache.version !== CACHE_VERSION) return undefined;
 
-    // Invalidate cache if version changed
-    if (data.version !== CACHE_VERSION) {
-      return { version: CACHE_VERSION, entries: {} };
+  // Entries from before structured output hold a markdown summary instead of notes
+  for (const entry of Object.values(cache.entries) as (CacheEntry & { summary?: string })[]) {
+    if (!entry.notes && typeof entry.summary === "string") {
+      entry.notes = notesFromMarkdown(entry.summary);
+      delete entry.summary;
     }
+  }
 
-    return data;
-  } catch {
-    return { version: CACHE_VERSION, entries: {} };
+  if (cache.version === 1) return migrateV1(cache);
+  cache.files ??= {};
+  return cache;
+}
+
+/**
+ * v1 keyed entries by path and only checked the content hash. Migrated
+ * entries have no fingerprint, so each is reused at its own path for as
+ * long as its content, category and model still match.
+ */
+function migrateV1(v1: CacheData): CacheData {
+  const cache: CacheData = { ...v1, version: CACHE_VERSION, files: {}, entries: {} };
+  for (const [path, entry] of Object.entries(v1.entries)) {
+    setCacheEntry(cache, path, { ...entry, model: entry.model ?? LEGACY_MODEL_ID });
   }
+  return cache;
 }
 
+function emptyCache(): CacheData {
+  return { version: CACHE_VERSION, files: {}, entries: {} };
+}
+
+/**
+ * Writes the cache atomically: a crash mid-write leaves the previous file intact.
+ */
 export async function saveCache(cachePath: string, cache: CacheData): Promise<void> {
-  await writeFile(cachePath, JSON.stringify(cache, null, 2));
+  const tmpPath = `${cachePath}.${process.pid}.tmp`;
+  try {
+    await writeFile(tmpPath, JSON.stringify(cache, null, 2));
+    await rename(tmpPath, cachePath);
+  } catch (err) {
+    await unlink(tmpPath).catch(() => {});
+    throw err;
+  }
+}
+
+/**
+ * Saves the cache periodically while analysis is running so an interrupted
+ * run keeps everything it already paid for. Writes are throttled to one per
+ * interval and never overlap.
+ */
+export class CacheCheckpointer {
+  private timer?: ReturnType<typeof setTimeout>;
+  private writing: Promise<void> = Promise.resolve();
+  private dirty = false;
+
+  constructor(
+    private readonly cachePath: string,
+    private readonly cache: CacheData,
+    private readonly intervalMs = 2000
+  ) {}
+
+  /** Mark the cache as changed; it will be written within intervalMs */
+  schedule(): void {
+    this.dirty = true;
+    if (this.timer) return;
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      void this.flush().catch(() => {
+        // A failed checkpoint isn't fatal - the final save will report errors
+      });
+    }, this.intervalMs);
+  }
+
+  /** Write any pending changes now and wait for them to land */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    this.writing = this.writing.catch(() => {}).then(async () => {
+      if (!this.dirty) return;
+      this.dirty = false;
+      try {
+        await saveCache(this.cachePath, this.cache);
+      } catch (err) {
+        this.dirty = true;
+        throw err;
+      }
+    });
+    return this.writing;
+  }
 }
 
 export async function computeFileHash(filePath: string): Promise<string> {
   const content = await readFile(filePath, "utf-8");
+  return computeContentHash(content);
+}
+
+export function computeContentHash(content: string): string {
   return createHash("sha256").update(content).digest("hex").slice(0, 16);
 }
 
+/**
+ * Chunks are keyed by their own content and the prompt fingerprint (prompts,
+ * category and model - see computeFingerprint), so an unchanged chunk is
+ * reused even after its file was edited.
+ */
+export function computeChunkHash(promptKey: string, content: string): string {
+  return createHash("sha256").update(`${promptKey}\n${content}`).digest("hex").slice(0, 16);
+}
+
+/**
+ * Identifies everything that shapes a file's notes besides its content:
+ * the prompt templates, category and model
+ */
+export function computeFingerprint(parts: string[]): string {
+  return createHash("sha256").update(parts.join("\n")).digest("hex").slice(0, 16);
+}
+
+/**
+ * Where an entry is stored: its content hash plus its fingerprint, so the
+ * same content under the same prompt and model is analyzed once, whatever
+ * its path. Entries without a fingerprint are keyed by what they recorded.
+ */
+export function entryKey(
+  entry: Pick<CacheEntry, "hash" | "fingerprint" | "category" | "definitionHash" | "model" | "source">
+): string {
+  // Committed notes get their own key so they can't replace an analyzed v1 entry
+  if (entry.source === "committed") return `${entry.hash}:committed`;
+  const fingerprint = entry.fingerprint
+    ?? `v1-${computeFingerprint([entry.category, entry.definitionHash ?? "", entry.model ?? ""]).slice(0, 8)}`;
+  return `${entry.hash}:${fingerprint}`;
+}
+
 export function getCacheEntry(cache: CacheData, relativePath: string): CacheEntry | undefined {
-  return cache.entries[relativePath];
+  const key = cache.files[relativePath];
+  return key === undefined ? undefined : cache.entries[key];
 }
 
 export function setCacheEntry(
@@ -43,27 +193,197 @@ export function setCacheEntry(
   relativePath: string,
   entry: CacheEntry
 ): void {
-  cache.entries[relativePath] = entry;
+  const key = entryKey(entry);
+  cache.entries[key] = entry;
+  cache.files[relativePath] = key;
 }
 
-export function isCacheValid(entry: CacheEntry | undefined, currentHash: string): boolean {
-  return entry !== undefined && entry.hash === currentHash;
+/**
+ * Forgets a path. Its entry stays until `cache gc`, in case the content
+ * comes back under another name.
+ */
+export function deleteCacheEntry(cache: CacheData, relativePath: string): void {
+  delete cache.files[relativePath];
 }
 
 /**
- * Remove cache entries for files that no longer exist.
- * Returns the list of removed file paths.
+ * Every path with notes, and its entry
+ */
+export function cachedFiles(cache: CacheData): [string, CacheEntry][] {
+  return Object.entries(cache.files).flatMap(([path, key]): [string, CacheEntry][] =>
+    cache.entries[key] ? [[path, cache.entries[key]]] : []);
+}
+
+/**
+ * Moves a renamed file's entry to its new path. Entries with a fingerprint
+ * are found by content anyway; this carries over the ones without (v1 or
+ * the committed notes). Does nothing if the new path already has one.
+ */
+export function renameCacheEntry(cache: CacheData, from: string, to: string): boolean {
+  const key = cache.files[from];
+  if (key === undefined || cache.files[to] !== undefined) return false;
+  cache.files[to] = key;
+  delete cache.files[from];
+  return true;
+}
+
+export function getChunkEntry(cache: CacheData, chunkHash: string): ChunkEntry | undefined {
+  return cache.chunks?.[chunkHash];
+}
+
+export function setChunkEntry(cache: CacheData, chunkHash: string, entry: ChunkEntry): void {
+  cache.chunks ??= {};
+  cache.chunks[chunkHash] = entry;
+}
+
+/**
+ * The notes for a file's current content under the current prompt and
+ * model, from whichever path it was analyzed at - so renames and copies cost
+ * nothing. An entry without a fingerprint only counts at its own path, and
+ * only if nothing it recorded has changed; it's returned with the
+ * fingerprint filled in. Notes rebuilt from the committed markdown never
+ * count: they may have lost exports or endpoints on the way.
+ */
+export function findCacheEntry(
+  cache: CacheData,
+  relativePath: string,
+  current: { hash: string; category: string; definitionHash?: string; fingerprint: string; model: string }
+): CacheEntry | undefined {
+  const entry = cache.entries[`${current.hash}:${current.fingerprint}`];
+  if (entry) return entry;
+
+  const legacy = getCacheEntry(cache, relativePath);
+  if (
+    legacy !== undefined &&
+    legacy.fingerprint === undefined &&
+    legacy.source === undefined &&
+    legacy.hash === current.hash &&
+    legacy.category === current.category &&
+    legacy.definitionHash === current.definitionHash &&
+    // Migration fills in the model, so an entry without one was seeded from the committed notes
+    legacy.model === current.model
+  ) {
+    return { ...legacy, fingerprint: current.fingerprint };
+  }
+  return undefined;
+}
+
+/**
+ * Forgets files that no longer exist and returns their paths. Their
+ * entries stay, so a rename or revert later in the run is still free. Chunk
+ * notes stay too: a large file that failed partway has no entry referring
+ * to its finished chunks yet. collectGarbage drops what's left over.
  */
 export function pruneCache(cache: CacheData, currentFiles: string[]): string[] {
   const currentFileSet = new Set(currentFiles);
   const removedPaths: string[] = [];
 
-  for (const cachedPath of Object.keys(cache.entries)) {
+  for (const cachedPath of Object.keys(cache.files)) {
     if (!currentFileSet.has(cachedPath)) {
-      delete cache.entries[cachedPath];
+      delete cache.files[cachedPath];
       removedPaths.push(cachedPath);
     }
   }
 
   return removedPaths;
 }
+
+/**
+ * Drops chunk notes no entry refers to and returns how many went
+ */
+function pruneChunks(cache: CacheData): number {
+  if (!cache.chunks) return 0;
+  let removed = 0;
+  const referenced = new Set(Object.values(cache.entries).flatMap(e => e.chunks ?? []));
+  for (const chunkHash of Object.keys(cache.chunks)) {
+    if (!referenced.has(chunkHash)) {
+      delete cache.chunks[chunkHash];
+      removed++;
+    }
+  }
+  return removed;
+}
+
+/**
+ * Drops entries no path refers to, chunk notes no entry refers to, and
+ * rollups of folders with no files left. Returns how many of each went.
+ */
+export function collectGarbage(cache: CacheData): { entries: number; chunks: number; rollups: number } {
+  const removed = { entries: 0, chunks: 0, rollups: 0 };
+
+  const referenced = new Set(Object.values(cache.files));
+  for (const key of Object.keys(cache.entries)) {
+    if (!referenced.has(key)) {
+      delete cache.entries[key];
+      removed.entries++;
+    }
+  }
+
+  removed.chunks = pruneChunks(cache);
+
+  const folders = new Set(Object.keys(cache.files).flatMap(folderAncestors));
+  for (const folder of Object.keys(cache.rollups ?? {})) {
+    if (!folders.has(folder)) {
+      delete cache.rollups![folder];
+      removed.rollups++;
+    }
+  }
+
+  return removed;
+}
+
+export function cacheStats(cache: CacheData): CacheStats {
+  const uses = new Map<string, number>();
+  for (const key of Object.values(cache.files)) {
+    uses.set(key, (uses.get(key) ?? 0) + 1);
+  }
+
+  const stats: CacheStats = {
+    files: Object.keys(cache.files).length,
+    entries: Object.keys(cache.entries).length,
+    shared: [...uses.values()].filter(count => count > 1).length,
+    unreferenced: Object.keys(cache.entries).filter(key => !uses.has(key)).length,
+    legacy: 0,
+    chunks: Object.keys(cache.chunks ?? {}).length,
+    rollups: Object.keys(cache.rollups ?? {}).length,
+    architecture: cache.architecture !== undefined,
+    models: {},
+    tokens: { input: 0, output: 0 },
+  };
+  for (const entry of Object.values(cache.entries)) {
+    if (!entry.fingerprint) stats.legacy++;
+    const model = entry.model ?? LEGACY_MODEL_ID;
+    stats.models[model] = (stats.models[model] ?? 0) + 1;
+    stats.tokens.input += entry.tokens.input;
+    stats.tokens.output += entry.tokens.output;
+  }
+  return stats;
+}
+
+/**
+ * Adds what `source` has and `cache` lacks, for `cache import`. Existing
+ * entries and paths always win. Returns how many of each were added.
+ */
+export function mergeCache(cache: CacheData, source: CacheData): { files: number; entries: number; chunks: number } {
+  const added = { files: 0, entries: 0, chunks: 0 };
+
+  for (const [key, entry] of Object.entries(source.entries)) {
+    if (cache.entries[key]) continue;
+    cache.entries[key] = entry;
+    added.entries++;
+  }
+  for (const [path, key] of Object.entries(source.files)) {
+    if (cache.files[path] !== undefined) continue;
+    cache.files[path] = key;
+    added.files++;
+  }
+  for (const [hash, chunk] of Object.entries(source.chunks ?? {})) {
+    if (cache.chunks?.[hash]) continue;
+    setChunkEntry(cache, hash, chunk);
+    added.chunks++;
+  }
+  cache.rollups = { ...source.rollups, ...cache.rollups };
+  cache.architecture ??= source.architecture;
+
+  return added;
+}
@@ -0,0 +1,106 @@
+import { createHash } from "crypto";
+import ignore, { type Ignore } from "ignore";
+import type { BuiltinCategory, CategoryDefinition, FileCategory } from "./types.js";
+
+/**
+ * Built-in categories with their section labels, in output order
+ */
+export const BUILTIN_CATEGORIES: { name: BuiltinCategory; label: string }[] = [
+  { name: "schema", label: "Database Schemas" },
+  { name: "migration", label: "Database Migrations" },
+  { name: "router", label: "API Routes & Endpoints" },
+  { name: "service", label: "Services & Business Logic" },
+  { name: "hook", label: "Hooks" },
+  { name: "component", label: "Components" },
+  { name: "util", label: "Utilities" },
+  { name: "type", label: "Type Definitions" },
+  { name: "config", label: "Configuration" },
+  { name: "test", label: "Tests" },
+  { name: "other", label: "Other Files" },
+];
+
+// Custom categories without an explicit order sort just before "other"
+const DEFAULT_CUSTOM_ORDER = 95;
+
+const BUILTIN_NAMES = new Set<string>(BUILTIN_CATEGORIES.map(c => c.name));
+
+export function isBuiltinCategory(name: string): name is BuiltinCategory {
+  return BUILTIN_NAMES.has(name);
+}
+
+interface Matcher {
+  name: string;
+  paths?: Ignore;
+  content?: RegExp[];
+}
+
+/**
+ * The categories for one run: the built-ins plus the definitions from config.
+ * Config definitions are matched in order, before the built-in heuristics.
+ */
+export class Categories {
+  private readonly definitions = new Map<string, CategoryDefinition>();
+  private readonly fingerprints = new Map<string, string>();
+  private readonly matchers: Matcher[] = [];
+
+  constructor(definitions: CategoryDefinition[] = []) {
+    for (const definition of definitions) {
+      this.definitions.set(definition.name, definition);
+      this.fingerprints.set(
+        definition.name,
+        createHash("sha256").update(JSON.stringify(definition)).digest("hex").slice(0, 16)
+      );
+
+      // A definition without matchers only overrides prompts/labels
+      if (!definition.paths?.length && !definition.content?.length) continue;
+      this.matchers.push({
+        name: definition.name,
+        paths: definition.paths?.length ? ignore().add(definition.paths) : undefined,
+        content: definition.content?.map(pattern => new RegExp(pattern, "m")),
+      });
+    }
+  }
+
+  /**
+   * Returns the first config category whose matchers accept the file.
+   * Path and content matchers must both match when both are given.
+   */
+  match(relativePath: string, content: string): FileCategory | undefined {
+    for (const matcher of this.matchers) {
+      if (matcher.paths && !matcher.paths.ignores(relativePath)) continue;
+      if (matcher.content && !matcher.content.some(re => re.test(content))) continue;
+      return matcher.name;
+    }
+    return undefined;
+  }
+
+  /** The config definition for a category, if there is one */
+  get(name: FileCategory): CategoryDefinition | undefined {
+    return this.definitions.get(name);
+  }
+
+  /** Identifies the definition that shapes a category's prompt; undefined for plain built-ins */
+  fingerprint(name: FileCategory): string | undefined {
+    return this.fingerprints.get(name);
+  }
+
+  label(name: FileCategory): string {
+    return this.definitions.get(name)?.label
+      ?? BUILTIN_CATEGORIES.find(c => c.name === name)?.label
+      ?? name;
+  }
+
+  /** Sorts category names into output order */
+  sort(names: Iterable<FileCategory>): FileCategory[] {
+    return [...names].sort((a, b) => this.order(a) - this.order(b) || a.localeCompare(b));
+  }
+
+  private order(name: FileCategory): number {
+    const configured = this.definitions.get(name)?.order;
+    if (configured !== undefined) return configured;
+
+    // Built-ins are 0 (schema) to 100 (other)
+    const builtin = BUILTIN_CATEGORIES.findIndex(c => c.name === name);
+    return builtin === -1 ? DEFAULT_CUSTOM_ORDER : builtin * 10;
+  }
+}
@@ -0,0 +1,263 @@
+import { writeFile } from "fs/promises";
+import { resolve } from "path";
+import { cachedFiles } from "./cache.js";
+import type {
+  CacheData,
+  ChangedFile,
+  EndpointNote,
+  ExportNote,
+  FileAnalysis,
+  FileCategory,
+  FileNotes,
+  NotesChangelog,
+  ResummarizedFile,
+} from "./types.js";
+
+export const CHANGELOG_FILE = "CLIFFNOTES-CHANGES.md";
+export const CHANGELOG_JSON_FILE = "cliffnotes.changes.json";
+
+const CHANGELOG_VERSION = 1;
+
+/**
+ * A file's notes as they were before this run
+ */
+export interface NotesSnapshot {
+  hash: string;
+  category: FileCategory;
+  notes: FileNotes;
+}
+
+/**
+ * Copies the cache's notes before analysis overwrites them
+ */
+export function snapshotNotes(cache: CacheData): Map<string, NotesSnapshot> {
+  return new Map(
+    cachedFiles(cache).map(([path, entry]) => [
+      path,
+      { hash: entry.hash, category: entry.category, notes: entry.notes },
+    ])
+  );
+}
+
+/**
+ * Compares the notes before and after a run. Files that failed this run
+ * aren't in `analyses` but still exist, so only paths missing from
+ * `currentPaths` count as removed.
+ */
+export function buildChangelog(
+  before: Map<string, NotesSnapshot>,
+  analyses: FileAnalysis[],
+  currentPaths: string[]
+): NotesChangelog {
+  const current = new Set(currentPaths);
+  const changelog: NotesChangelog = {
+    version: CHANGELOG_VERSION,
+    generatedAt: new Date().toISOString(),
+    added: [],
+    removed: [],
+    resummarized: [],
+  };
+
+  for (const file of analyses) {
+    const previous = before.get(file.relativePath);
+    if (!previous) {
+      changelog.added.push(changedFile(file.relativePath, file.category, file.notes));
+    } else if (previous.category !== file.category || JSON.stringify(previous.notes) !== JSON.stringify(file.notes)) {
+      changelog.resummarized.push(diffNotes(file.relativePath, previous, file));
+    }
+  }
+
+  for (const [path, previous] of before) {
+    if (!current.has(path)) {
+      changelog.removed.push(changedFile(path, previous.category, previous.notes));
+    }
+  }
+
+  changelog.added.sort((a, b) => a.path.localeCompare(b.path));
+  changelog.removed.sort((a, b) => a.path.localeCompare(b.path));
+  changelog.resummarized.sort((a, b) => a.path.localeCompare(b.path));
+  return changelog;
+}
+
+export function hasChanges(changelog: NotesChangelog): boolean {
+  return changelog.added.length + changelog.removed.length + changelog.resummarized.length > 0;
+}
+
+/**
+ * Writes the markdown report and its JSON form next to the root notes
+ */
+export async function writeChangelog(rootDir: string, changelog: NotesChangelog): Promise<void> {
+  await writeFile(resolve(rootDir, CHANGELOG_FILE), renderChangelog(changelog));
+  await writeFile(resolve(rootDir, CHANGELOG_JSON_FILE), JSON.stringify(changelog, null, 2) + "\n");
+}
+
+export function renderChangelog(changelog: NotesChangelog): string {
+  const sections: string[] = [];
+  const reworded = changelog.resummarized.filter(f => !f.sourceChanged);
+  const changed = changelog.resummarized.filter(f => f.sourceChanged);
+
+  sections.push(`# Cliffnotes Changes
+
+> Run of ${changelog.generatedAt}: ${changelog.added.length} added, ${changelog.removed.length} removed, ${changed.length} re-summarized, ${reworded.length} reworded without source changes
+`);
+
+  if (!hasChanges(changelog)) {
+    sections.push("No notes changed in this run.\n");
+    return sections.join("\n");
+  }
+
+  const highlights = summarizeHighlights(changelog);
+  if (highlights.length > 0) {
+    sections.push(`## At a Glance
+
+${highlights.map(h => `- ${h}`).join("\n")}
+`);
+  }
+
+  if (changelog.added.length > 0) {
+    sections.push(`## Added
+
+${changelog.added.map(f => `- \`${f.path}\` (${f.category}) - ${f.purpose}`).join("\n")}
+`);
+  }
+
+  if (changelog.removed.length > 0) {
+    sections.push(`## Removed
+
+${changelog.removed.map(f => `- \`${f.path}\` (${f.category}) - ${f.purpose}`).join("\n")}
+`);
+  }
+
+  if (changed.length > 0) {
+    sections.push(`## Re-summarized
+
+${changed.map(renderFileDiff).join("\n\n")}
+`);
+  }
+
+  // Reworded without a source change: usually a new model or prompt, worth a skim for drift
+  if (reworded.length > 0) {
+    sections.push(`## Reworded (source unchanged)
+
+${reworded.map(renderFileDiff).join("\n\n")}
+`);
+  }
+
+  return sections.join("\n");
+}
+
+function changedFile(path: string, category: FileCategory, notes: FileNotes): ChangedFile {
+  return {
+    path,
+    category,
+    purpose: notes.purpose,
+    exports: notes.exports.map(exportLabel),
+    endpoints: notes.endpoints.map(endpointLabel),
+  };
+}
+
+/**
+ * Diffs the fields reviewers care about. Other fields (details, props,
+ * search terms) only count towards "the notes changed".
+ */
+function diffNotes(path: string, before: NotesSnapshot, after: FileAnalysis): ResummarizedFile {
+  const diff: ResummarizedFile = {
+    path,
+    sourceChanged: before.hash !== after.hash,
+    exports: { added: [], removed: [], changed: [] },
+    endpoints: { added: [], removed: [], changed: [] },
+  };
+
+  if (before.notes.purpose !== after.notes.purpose) {
+    diff.purpose = { before: before.notes.purpose, after: after.notes.purpose };
+  }
+  if (before.category !== after.category) {
+    diff.category = { before: before.category, after: after.category };
+  }
+
+  const oldExports = byKey(before.notes.exports, e => e.name);
+  const newExports = byKey(after.notes.exports, e => e.name);
+  for (const [name, exp] of newExports) {
+    const old = oldExports.get(name);
+    if (!old) diff.exports.added.push(exportLabel(exp));
+    else if (old.signature !== exp.signature) diff.exports.changed.push({ name, before: old.signature, after: exp.signature });
+  }
+  for (const [name, exp] of oldExports) {
+    if (!newExports.has(name)) diff.exports.removed.push(exportLabel(exp));
+  }
+
+  const oldEndpoints = byKey(before.notes.endpoints, endpointLabel);
+  const newEndpoints = byKey(after.notes.endpoints, endpointLabel);
+  for (const [label, endpoint] of newEndpoints) {
+    const old = oldEndpoints.get(label);
+    if (!old) {
+      diff.endpoints.added.push(label);
+      continue;
+    }
+    const fields = (["input", "output", "auth"] as const).filter(field => old[field] !== endpoint[field]);
+    if (fields.length > 0) diff.endpoints.changed.push({ endpoint: label, fields });
+  }
+  for (const label of oldEndpoints.keys()) {
+    if (!newEndpoints.has(label)) diff.endpoints.removed.push(label);
+  }
+
+  return diff;
+}
+
+function renderFileDiff(file: ResummarizedFile): string {
+  const lines = [`### \`${file.path}\``];
+  if (file.category) lines.push(`- **Category:** ${file.category.before} → ${file.category.after}`);
+  if (file.purpose) lines.push(`- **Purpose:** ~~${file.purpose.before}~~ → ${file.purpose.after}`);
+  if (file.exports.added.length > 0) lines.push(`- **Exports added:** ${file.exports.added.map(code).join(", ")}`);
+  if (file.exports.removed.length > 0) lines.push(`- **Exports removed:** ${file.exports.removed.map(code).join(", ")}`);
+  for (const change of file.exports.changed) {
+    lines.push(`- **Signature changed:** ${code(change.before)} → ${code(change.after)}`);
+  }
+  if (file.endpoints.added.length > 0) lines.push(`- **Endpoints added:** ${file.endpoints.added.map(code).join(", ")}`);
+  if (file.endpoints.removed.length > 0) lines.push(`- **Endpoints removed:** ${file.endpoints.removed.map(code).join(", ")}`);
+  for (const change of file.endpoints.changed) {
+    lines.push(`- **Endpoint changed:** ${code(change.endpoint)} (${change.fields.join(", ")})`);
+  }
+  if (lines.length === 1) lines.push("- Wording only");
+  return lines.join("\n");
+}
+
+/**
+ * Totals across the run, e.g. "2 endpoints added". A new file's endpoints
+ * and exports count as added, a deleted file's as removed.
+ */
+function summarizeHighlights(changelog: NotesChangelog): string[] {
+  const count = (pick: (f: ResummarizedFile) => unknown[]) =>
+    changelog.resummarized.reduce((sum, f) => sum + pick(f).length, 0);
+  const countFiles = (files: ChangedFile[], pick: (f: ChangedFile) => unknown[]) =>
+    files.reduce((sum, f) => sum + pick(f).length, 0);
+
+  const highlights = [
+    [count(f => f.endpoints.added) + countFiles(changelog.added, f => f.endpoints), "endpoint", "added"],
+    [count(f => f.endpoints.removed) + countFiles(changelog.removed, f => f.endpoints), "endpoint", "removed"],
+    [count(f => f.endpoints.changed), "endpoint", "changed"],
+    [count(f => f.exports.added) + countFiles(changelog.added, f => f.exports), "export", "added"],
+    [count(f => f.exports.removed) + countFiles(changelog.removed, f => f.exports), "export", "removed"],
+    [count(f => f.exports.changed), "signature", "changed"],
+  ] as const;
+
+  return highlights
+    .filter(([n]) => n > 0)
+    .map(([n, noun, verb]) => `${n} ${noun}${n === 1 ? "" : "s"} ${verb}`);
+}
+
+function byKey<T>(items: T[], key: (item: T) => string): Map<string, T> {
+  return new Map(items.map(item => [key(item), item]));
+}
+
+function exportLabel(exp: ExportNote): string {
+  return exp.signature || exp.name;
+}
+
+function endpointLabel(endpoint: EndpointNote): string {
+  return `${endpoint.method.toUpperCase()} ${endpoint.path}`;
+}
+
+function code(value: string): string {
+  return `\`${value.replace(/`/g, "'")}\``;
+}
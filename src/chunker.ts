@@ -0,0 +1,218 @@
+import ts from "typescript";
+import { countTokens } from "./tokens.js";
+
+export interface Chunk {
+  content: string;
+  startLine: number;      // 1-based, inclusive
+  endLine: number;
+  declarations: string[]; // Names of the top-level declarations it contains
+}
+
+interface Segment {
+  text: string;
+  start: number;          // Offset into the file
+  declaration: string;
+}
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  ts: ts.ScriptKind.TS,
+  mts: ts.ScriptKind.TS,
+  cts: ts.ScriptKind.TS,
+  tsx: ts.ScriptKind.TSX,
+  js: ts.ScriptKind.JS,
+  mjs: ts.ScriptKind.JS,
+  cjs: ts.ScriptKind.JS,
+  jsx: ts.ScriptKind.JSX,
+};
+
+/**
+ * Splits a file into chunks of at most `maxTokens`, cutting only on
+ * top-level declaration boundaries. TS/JS files are split on statements
+ * from the compiler's AST; other files on blank-line-separated blocks that
+ * start at column 0 (Python defs, Prisma models, SQL statements, ...).
+ * A single declaration bigger than the budget is split on its
+ * least-indented lines.
+ */
+export async function splitIntoChunks(
+  relativePath: string,
+  content: string,
+  maxTokens: number
+): Promise<Chunk[]> {
+  const extension = relativePath.split(".").pop()?.toLowerCase() ?? "";
+  const scriptKind = SCRIPT_KINDS[extension];
+  const segments = scriptKind !== undefined
+    ? segmentByStatements(relativePath, content, scriptKind)
+    : segmentByBlocks(content);
+
+  // Break up segments that don't fit on their own
+  const pieces: (Segment & { tokens: number })[] = [];
+  for (const segment of segments) {
+    const tokens = await countTokens(segment.text);
+    if (tokens <= maxTokens) {
+      pieces.push({ ...segment, tokens });
+      continue;
+    }
+    for (const piece of await splitByLines(segment, maxTokens)) {
+      pieces.push(piece);
+    }
+  }
+
+  // Greedily pack pieces into chunks
+  const chunks: Chunk[] = [];
+  let current: (Segment & { tokens: number })[] = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const text = current.map(p => p.text).join("");
+    const start = current[0].start;
+    chunks.push({
+      content: text,
+      startLine: lineAt(content, start + (text.length - text.trimStart().length)),
+      endLine: lineAt(content, start + text.trimEnd().length),
+      declarations: [...new Set(current.map(p => p.declaration).filter(Boolean))],
+    });
+    current = [];
+    currentTokens = 0;
+  };
+
+  for (const piece of pieces) {
+    if (currentTokens + piece.tokens > maxTokens) flush();
+    current.push(piece);
+    currentTokens += piece.tokens;
+  }
+  flush();
+
+  return chunks;
+}
+
+function segmentByStatements(path: string, content: string, kind: ts.ScriptKind): Segment[] {
+  const source = ts.createSourceFile(path, content, ts.ScriptTarget.Latest, false, kind);
+  const statements = source.statements;
+  if (statements.length === 0) return [{ text: content, start: 0, declaration: "" }];
+
+  return statements.map((statement, i) => {
+    // Full start includes leading comments, so JSDoc stays with its declaration
+    const start = i === 0 ? 0 : statement.getFullStart();
+    const end = i === statements.length - 1 ? content.length : statements[i + 1].getFullStart();
+    return {
+      text: content.slice(start, end),
+      start,
+      declaration: declarationName(statement, source),
+    };
+  });
+}
+
+function declarationName(statement: ts.Statement, source: ts.SourceFile): string {
+  if (
+    (ts.isFunctionDeclaration(statement) ||
+      ts.isClassDeclaration(statement) ||
+      ts.isInterfaceDeclaration(statement) ||
+      ts.isTypeAliasDeclaration(statement) ||
+      ts.isEnumDeclaration(statement) ||
+      ts.isModuleDeclaration(statement)) &&
+    statement.name
+  ) {
+    return statement.name.getText(source);
+  }
+  if (ts.isVariableStatement(statement)) {
+    return statement.declarationList.declarations.map(d => d.name.getText(source)).join(", ");
+  }
+  if (ts.isImportDeclaration(statement)) {
+    return "";
+  }
+  return firstLine(statement.getText(source));
+}
+
+function segmentByBlocks(content: string): Segment[] {
+  const lines = content.split("\n");
+  const segments: Segment[] = [];
+  let start = 0;
+  let offset = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const startsBlock = i > 0 && /^\S/.test(line) && lines[i - 1].trim() === "";
+    if (startsBlock && offset > start) {
+      const text = content.slice(start, offset);
+      segments.push({ text, start, declaration: firstLine(text) });
+      start = offset;
+    }
+    offset += line.length + 1;
+  }
+
+  const rest = content.slice(start);
+  if (rest.length > 0) segments.push({ text: rest, start, declaration: firstLine(rest) });
+  return segments;
+}
+
+/**
+ * Splits an oversized segment on line boundaries, cutting at the
+ * least-indented line in the second half of each window so nested blocks
+ * (router procedures, table columns) stay together where possible.
+ */
+async function splitByLines(
+  segment: Segment,
+  maxTokens: number
+): Promise<(Segment & { tokens: number })[]> {
+  const lines = segment.text.split(/(?<=\n)/);
+  const lineTokens = await Promise.all(lines.map(line => countTokens(line)));
+  const pieces: (Segment & { tokens: number })[] = [];
+
+  let startIndex = 0;
+  let offset = segment.start;
+
+  while (startIndex < lines.length) {
+    let endIndex = startIndex;
+    let tokens = 0;
+    while (endIndex < lines.length && (endIndex === startIndex || tokens + lineTokens[endIndex] <= maxTokens)) {
+      tokens += lineTokens[endIndex];
+      endIndex++;
+    }
+
+    // Pull the cut back to a shallow line unless we've reached the end
+    if (endIndex < lines.length) {
+      const minCut = startIndex + Math.max(1, Math.floor((endIndex - startIndex) / 2));
+      let bestCut = endIndex;
+      let bestIndent = indentation(lines[endIndex]);
+      for (let i = endIndex - 1; i >= minCut; i--) {
+        if (lines[i].trim() === "") continue;
+        const indent = indentation(lines[i]);
+        if (indent < bestIndent) {
+          bestIndent = indent;
+          bestCut = i;
+        }
+      }
+      endIndex = bestCut;
+    }
+
+    const text = lines.slice(startIndex, endIndex).join("");
+    pieces.push({
+      text,
+      start: offset,
+      declaration: startIndex === 0 ? segment.declaration : `${segment.declaration} (cont.)`,
+      tokens: lineTokens.slice(startIndex, endIndex).reduce((a, b) => a + b, 0),
+    });
+    offset += text.length;
+    startIndex = endIndex;
+  }
+
+  return pieces;
+}
+
+function indentation(line: string): number {
+  return line.trim() === "" ? Infinity : line.length - line.trimStart().length;
+}
+
+function firstLine(text: string): string {
+  const line = text.split("\n").find(l => l.trim() !== "")?.trim() ?? "";
+  return line.length > 60 ? `${line.slice(0, 57)}...` : line;
+}
+
+function lineAt(content: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < content.length; i++) {
+    if (content.charCodeAt(i) === 10) line++;
+  }
+  return line;
+}
@@ -0,0 +1,127 @@
+import { readFile, readdir } from "fs/promises";
+import { dirname, resolve } from "path";
+import { glob } from "glob";
+import { getCacheEntry, setCacheEntry } from "./cache.js";
+import { readNotesIndex } from "./export.js";
+import { parseManifest } from "./manifest.js";
+import { notesFromMarkdown } from "./notes.js";
+import { isNotesPage } from "./output.js";
+import type { ArchitectureEntry, CacheData, CacheEntry, CliffnotesConfig, RollupEntry } from "./types.js";
+
+/**
+ * What a previous run left in the repository, in cache form. Input hashes
+ * for rollups and the architecture aren't recorded in the notes, so those
+ * entries are only reused by runs that don't check them (see `--since`).
+ */
+export interface CommittedNotes {
+  source: string;
+  entries: Record<string, CacheEntry>;
+  rollups: Record<string, RollupEntry>;
+  architecture?: ArchitectureEntry;
+}
+
+/**
+ * Reads the committed notes: the machine-readable index if there is one,
+ * else each CLIFFNOTES.md's manifest and file sections (including those
+ * moved to category pages). Returns undefined
+ * when neither exists.
+ */
+export async function readCommittedNotes(
+  rootDir: string,
+  config: CliffnotesConfig
+): Promise<CommittedNotes | undefined> {
+  const index = await readNotesIndex(rootDir);
+  if (index) {
+    const { generatedAt, models } = index.run;
+    const model = models[0] ?? "unknown";
+    const entries: Record<string, CacheEntry> = {};
+    for (const file of index.files) {
+      entries[file.path] = {
+        hash: file.hash,
+        notes: file.notes,
+        category: file.category,
+        analyzedAt: generatedAt,
+        model: file.model,
+        tokens: file.tokens,
+      };
+    }
+
+    const rollups: Record<string, RollupEntry> = {};
+    for (const folder of index.folders) {
+      if (!folder.rollup || folder.path === ".") continue;
+      rollups[folder.path] = { ...folder.rollup, inputHash: "", analyzedAt: generatedAt, model, tokens: { input: 0, output: 0 } };
+    }
+
+    const architecture = index.run.architecture
+      ? { inputHash: "", content: index.run.architecture, analyzedAt: generatedAt, model, tokens: { input: 0, output: 0 } }
+      : undefined;
+    return { source: "index", entries, rollups, architecture };
+  }
+
+  const notesFiles = await glob(`**/${config.outputFile}`, {
+    cwd: rootDir,
+    ignore: ["**/node_modules/**", "**/.git/**"],
+    dot: true,
+  });
+  const entries: Record<string, CacheEntry> = {};
+  for (const notesFile of notesFiles) {
+    const notesPath = resolve(rootDir, notesFile);
+    const main = await readFile(notesPath, "utf-8");
+    const manifest = parseManifest(main);
+    if (!manifest) continue;
+
+    // An oversized folder's full sections are on its category pages
+    const pages = (await readdir(dirname(notesPath))).filter(name => isNotesPage(name, config.outputFile)).sort();
+    let content = main;
+    for (const page of pages) {
+      content += "\n" + await readFile(resolve(dirname(notesPath), page), "utf-8");
+    }
+
+    for (const [path, hash] of Object.entries(manifest.files)) {
+      const section = fileSection(content, path);
+      if (!section) continue;
+      entries[path] = {
+        hash,
+        notes: notesFromMarkdown(section),
+        category: section.match(/\*\*Category:\*\*\s*(\S+)/)?.[1] ?? "other",
+        analyzedAt: new Date(0).toISOString(),
+        tokens: { input: 0, output: 0 },
+      };
+    }
+  }
+
+  return Object.keys(entries).length > 0 ? { source: config.outputFile, entries, rollups: {} } : undefined;
+}
+
+/**
+ * Fills in whatever the cache lacks from the committed notes. Existing
+ * cache entries always win. Seeded entries are marked so they're only shown
+ * as-is and never taken for an analysis of the file. Returns how many file
+ * entries were added.
+ */
+export function seedCache(cache: CacheData, committed: CommittedNotes): number {
+  let seeded = 0;
+  for (const [path, entry] of Object.entries(committed.entries)) {
+    if (getCacheEntry(cache, path)) continue;
+    setCacheEntry(cache, path, { ...entry, source: "committed" });
+    seeded++;
+  }
+  cache.rollups = { ...committed.rollups, ...cache.rollups };
+  cache.architecture ??= committed.architecture;
+  return seeded;
+}
+
+/**
+ * A file's section of a notes file, from its heading up to the next
+ * separator or heading, without the import edges
+ */
+function fileSection(content: string, path: string): string | undefined {
+  const start = content.indexOf(`\n## ${path}\n`);
+  if (start === -1) return undefined;
+
+  const rest = content.slice(start + 1);
+  const end = rest.slice(3).search(/\n---\n|\n##? |\n### |\n<!-- cliffnotes:manifest/);
+  return (end === -1 ? rest : rest.slice(0, end + 3))
+    .replace(/\n\*\*Internal dependencies:\*\*[\s\S]*$/, "")
+    .trim();
+}
@@ -0,0 +1,510 @@
+import { readFile, rm, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import { resolve, basename, dirname } from "path";
+import { pathToFileURL } from "url";
+import ts from "typescript";
+import type { AnalysisSettings } from "./analyzer.js";
+import { buildModelConfig, isProviderName, PROVIDER_NAMES } from "./providers.js";
+import { detectWorkspaces, workspaceOf } from "./workspaces.js";
+import { Categories } from "./categories.js";
+import { isTargetName, TARGET_NAMES } from "./targets.js";
+import {
+  DEFAULT_CONFIG,
+  type CategoryDefinition,
+  type CliffnotesConfig,
+  type FolderOverride,
+  type ModelConfig,
+  type Workspace,
+} from "./types.js";
+
+/**
+ * Config files we look for in the target directory, in order of priority.
+ * A "cliffnotes" key in package.json is checked last.
+ */
+export const CONFIG_FILES = [
+  "cliffnotes.config.ts",
+  "cliffnotes.config.js",
+  "cliffnotes.config.mjs",
+  "cliffnotes.config.json",
+];
+
+// Category names appear in prompts, cache entries and page names
+const CATEGORY_NAME = /^[a-z][a-z0-9-]*$/;
+
+/**
+ * Settings as written by the user - everything optional, model partially specified
+ */
+export type UserConfig = Partial<Omit<CliffnotesConfig, "model">> & {
+  model?: Partial<ModelConfig>;
+};
+
+export interface LoadedConfig {
+  config: CliffnotesConfig;
+  source?: string; // Path of the file the config came from (undefined = defaults only)
+  workspaces: Workspace[];                          // Monorepo packages; empty for a single package
+  workspaceConfigs: Map<string, WorkspaceConfig>;   // Packages with their own config, by path
+}
+
+/**
+ * A workspace package's own config (a cliffnotes.config.* in the package,
+ * or a "cliffnotes" key in its package.json)
+ */
+export interface WorkspaceConfig {
+  config: UserConfig;
+  source: string;
+}
+
+/**
+ * Finds, validates and merges the project config over DEFAULT_CONFIG.
+ * An explicit path (from --config) wins over discovery. In a monorepo, each
+ * workspace's own config narrows the files picked in its folder.
+ */
+export async function loadConfig(rootDir: string, explicitPath?: string): Promise<LoadedConfig> {
+  const found = explicitPath
+    ? { path: resolve(explicitPath), raw: await readConfigFile(resolve(explicitPath)) }
+    : await findConfig(rootDir);
+
+  const config = found ? mergeConfig(cloneDefaults(), validateConfig(found.raw, found.path)) : cloneDefaults();
+
+  const workspaces = await detectWorkspaces(rootDir);
+  const workspaceConfigs = new Map<string, WorkspaceConfig>();
+  for (const workspace of workspaces) {
+    const own = await findConfig(resolve(rootDir, workspace.path));
+    if (own) {
+      workspaceConfigs.set(workspace.path, { config: validateConfig(own.raw, own.path), source: own.path });
+    }
+  }
+
+  return {
+    config: applyWorkspaceSelection(config, workspaceConfigs),
+    source: found?.path,
+    workspaces,
+    workspaceConfigs,
+  };
+}
+
+/**
+ * Applies the file selection of each workspace's own config to its folder,
+ * so every run - whole repo or single workspace - picks the same files. Its
+ * include and exclude become a folder override, and its own folder overrides
+ * are rebased onto the workspace. The root config's overrides win.
+ */
+function applyWorkspaceSelection(
+  config: CliffnotesConfig,
+  workspaceConfigs: Map<string, WorkspaceConfig>
+): CliffnotesConfig {
+  const folders: Record<string, FolderOverride> = {};
+  for (const [path, { config: user }] of workspaceConfigs) {
+    if (user.include || user.exclude) {
+      folders[path] = { include: user.include, exclude: user.exclude };
+    }
+    for (const [folder, override] of Object.entries(user.folders ?? {})) {
+      folders[`${path}/${folder}`] = override;
+    }
+  }
+  return { ...config, folders: { ...folders, ...config.folders } };
+}
+
+/**
+ * Resolves each file's analysis settings. A workspace's own `model`,
+ * `categories` and `chunkTokens` apply to its files in every run, so full
+ * and workspace runs agree on their notes; `overrides` (the CLI flags) win
+ * over both. Returns undefined for files that use the root settings.
+ * Repo-wide outputs - rollups, architecture, targets - follow the root config.
+ */
+export function workspaceAnalysisSettings(
+  config: CliffnotesConfig,
+  workspaces: Workspace[],
+  workspaceConfigs: Map<string, WorkspaceConfig>,
+  overrides: { provider?: string; model?: string; baseURL?: string; chunkTokens?: number } = {}
+): (relativePath: string) => AnalysisSettings | undefined {
+  const own = new Map<string, AnalysisSettings>();
+  for (const [path, { config: user }] of workspaceConfigs) {
+    if (!user.model && !user.categories && user.chunkTokens === undefined) continue;
+    const merged = mergeConfig(config, {
+      ...(user.model ? { model: user.model } : {}),
+      ...(user.categories ? { categories: user.categories } : {}),
+    });
+    own.set(path, {
+      model: buildModelConfig(merged.model, overrides),
+      categories: new Categories(merged.categories),
+      chunkTokens: overrides.chunkTokens ?? user.chunkTokens ?? config.chunkTokens,
+    });
+  }
+
+  return relativePath => {
+    const workspace = workspaceOf(workspaces, relativePath);
+    return workspace ? own.get(workspace.path) : undefined;
+  };
+}
+
+async function findConfig(rootDir: string): Promise<{ path: string; raw: unknown } | undefined> {
+  for (const name of CONFIG_FILES) {
+    const path = resolve(rootDir, name);
+    if (existsSync(path)) {
+      return { path, raw: await readConfigFile(path) };
+    }
+  }
+
+  const packageJsonPath = resolve(rootDir, "package.json");
+  if (existsSync(packageJsonPath)) {
+    try {
+      const pkg = JSON.parse(await readFile(packageJsonPath, "utf-8"));
+      if (pkg && typeof pkg === "object" && "cliffnotes" in pkg) {
+        return { path: packageJsonPath, raw: pkg.cliffnotes };
+      }
+    } catch {
+      // A broken package.json isn't our problem - fall back to defaults
+    }
+  }
+
+  return undefined;
+}
+
+async function readConfigFile(path: string): Promise<unknown> {
+  if (!existsSync(path)) {
+    throw new Error(`Config file not found: ${path}`);
+  }
+
+  if (path.endsWith(".json")) {
+    const raw = await readFile(path, "utf-8");
+    try {
+      return JSON.parse(raw);
+    } catch (err) {
+      throw new Error(`Could not parse ${basename(path)}: ${(err as Error).message}`);
+    }
+  }
+
+  // .ts/.js/.mjs configs export the config as their default export
+  const mod = path.endsWith(".ts") ? await importTypeScript(path) : await import(pathToFileURL(path).href);
+  return mod.default ?? mod;
+}
+
+/**
+ * Node can't import .ts files, so the config is transpiled to a temporary
+ * module next to it - relative imports of .js/.json files still resolve.
+ */
+async function importTypeScript(path: string): Promise<Record<string, unknown>> {
+  const { outputText } = ts.transpileModule(await readFile(path, "utf-8"), {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+    fileName: path,
+  });
+  const compiled = resolve(dirname(path), `.${basename(path, ".ts")}.${process.pid}.mjs`);
+  await writeFile(compiled, outputText);
+  try {
+    return await import(pathToFileURL(compiled).href);
+  } finally {
+    await rm(compiled, { force: true });
+  }
+}
+
+/**
+ * Checks a raw config object and returns the recognised settings.
+ * Collects every problem before throwing so users can fix them in one go.
+ */
+export function validateConfig(raw: unknown, source: string): UserConfig {
+  const errors: string[] = [];
+  const result: UserConfig = {};
+
+  if (!isPlainObject(raw)) {
+    throw new Error(`Invalid config in ${source}: expected an object`);
+  }
+
+  for (const [key, value] of Object.entries(raw)) {
+    switch (key) {
+      case "concurrency":
+        if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+          errors.push(`"concurrency" must be a positive integer`);
+        } else {
+          result.concurrency = value;
+        }
+        break;
+      case "maxRetries":
+        if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+          errors.push(`"maxRetries" must be a non-negative integer`);
+        } else {
+          result.maxRetries = value;
+        }
+        break;
+      case "chunkTokens":
+        if (typeof value !== "number" || !Number.isInteger(value) || value < 1000) {
+          errors.push(`"chunkTokens" must be an integer of at least 1000`);
+        } else {
+          result.chunkTokens = value;
+        }
+        break;
+      case "notesTokens":
+        if (typeof value !== "number" || !Number.isInteger(value) || value < 1000) {
+          errors.push(`"notesTokens" must be an integer of at least 1000`);
+        } else {
+          result.notesTokens = value;
+        }
+        break;
+      case "rollups":
+      case "architecture":
+      case "graph":
+      case "changelog":
+        if (typeof value !== "boolean") {
+          errors.push(`"${key}" must be a boolean`);
+        } else {
+          result[key] = value;
+        }
+        break;
+      case "include":
+      case "exclude":
+        if (!isStringArray(value)) {
+          errors.push(`"${key}" must be an array of glob strings`);
+        } else {
+          result[key] = value;
+        }
+        break;
+      case "outputFile":
+      case "cacheFile":
+        if (typeof value !== "string" || value.length === 0 || /[\\/]/.test(value)) {
+          errors.push(`"${key}" must be a plain file name`);
+        } else {
+          result[key] = value;
+        }
+        break;
+      case "folders":
+        if (!isPlainObject(value)) {
+          errors.push(`"folders" must be an object keyed by folder path`);
+        } else {
+          result.folders = validateFolderOverrides(value, errors);
+        }
+        break;
+      case "index":
+        if (value === false || value === "json" || value === "jsonl") {
+          result.index = value;
+        } else {
+          errors.push(`"index" must be "json", "jsonl" or false`);
+        }
+        break;
+      case "targets":
+        if (!isStringArray(value) || !value.every(isTargetName)) {
+          errors.push(`"targets" must be an array of: ${TARGET_NAMES.join(", ")}`);
+        } else {
+          result.targets = [...new Set(value)];
+        }
+        break;
+      case "categories":
+        if (!Array.isArray(value)) {
+          errors.push(`"categories" must be an array of category definitions`);
+        } else {
+          result.categories = validateCategories(value, errors);
+        }
+        break;
+      case "model":
+        if (!isPlainObject(value)) {
+          errors.push(`"model" must be an object like { "provider": "anthropic", "model": "..." }`);
+        } else {
+          result.model = validateModelConfig(value, errors);
+        }
+        break;
+      default:
+        errors.push(`Unknown option "${key}"`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid config in ${source}:\n${errors.map(e => `  - ${e}`).join("\n")}`);
+  }
+
+  return result;
+}
+
+function validateFolderOverrides(
+  value: Record<string, unknown>,
+  errors: string[]
+): Record<string, FolderOverride> {
+  const overrides: Record<string, FolderOverride> = {};
+
+  for (const [rawPath, override] of Object.entries(value)) {
+    const folder = normalizeFolderPath(rawPath);
+    const label = `folders["${rawPath}"]`;
+
+    if (folder === "." || folder.startsWith("..")) {
+      errors.push(`${label} must be a folder inside the project (use top-level options for the root)`);
+      continue;
+    }
+    if (!isPlainObject(override)) {
+      errors.push(`${label} must be an object`);
+      continue;
+    }
+
+    const result: FolderOverride = {};
+    for (const [key, v] of Object.entries(override)) {
+      if (key === "include" || key === "exclude") {
+        if (isStringArray(v)) result[key] = v;
+        else errors.push(`${label}.${key} must be an array of glob strings`);
+      } else if (key === "skip") {
+        if (typeof v === "boolean") result.skip = v;
+        else errors.push(`${label}.skip must be a boolean`);
+      } else {
+        errors.push(`Unknown option ${label}.${key}`);
+      }
+    }
+    overrides[folder] = result;
+  }
+
+  return overrides;
+}
+
+function validateCategories(value: unknown[], errors: string[]): CategoryDefinition[] {
+  const definitions: CategoryDefinition[] = [];
+  const seen = new Set<string>();
+
+  value.forEach((raw, index) => {
+    const label = `categories[${index}]`;
+    if (!isPlainObject(raw)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    if (typeof raw.name !== "string" || !CATEGORY_NAME.test(raw.name)) {
+      errors.push(`${label}.name must be a lowercase name like "job" or "feature-flag"`);
+      return;
+    }
+    if (seen.has(raw.name)) {
+      errors.push(`${label}: category "${raw.name}" is defined twice`);
+      return;
+    }
+    seen.add(raw.name);
+
+    const definition: CategoryDefinition = { name: raw.name };
+    for (const [key, v] of Object.entries(raw)) {
+      switch (key) {
+        case "name":
+          break;
+        case "label":
+        case "instructions":
+        case "template":
+          if (typeof v === "string" && v.trim().length > 0) definition[key] = v;
+          else errors.push(`${label}.${key} must be a non-empty string`);
+          break;
+        case "order":
+          if (typeof v === "number" && Number.isFinite(v)) definition.order = v;
+          else errors.push(`${label}.order must be a number`);
+          break;
+        case "paths":
+          if (isStringArray(v)) definition.paths = v;
+          else errors.push(`${label}.paths must be an array of path patterns`);
+          break;
+        case "content":
+          if (!isStringArray(v)) {
+            errors.push(`${label}.content must be an array of regular expressions`);
+            break;
+          }
+          for (const pattern of v) {
+            try {
+              new RegExp(pattern, "m");
+            } catch {
+              errors.push(`${label}.content has an invalid regular expression: ${pattern}`);
+            }
+          }
+          definition.content = v;
+          break;
+        default:
+          errors.push(`Unknown option ${label}.${key}`);
+      }
+    }
+    definitions.push(definition);
+  });
+
+  return definitions;
+}
+
+function validateModelConfig(value: Record<string, unknown>, errors: string[]): Partial<ModelConfig> {
+  const result: Partial<ModelConfig> = {};
+
+  for (const [key, v] of Object.entries(value)) {
+    switch (key) {
+      case "provider":
+        if (typeof v === "string" && isProviderName(v)) result.provider = v;
+        else errors.push(`"model.provider" must be one of: ${PROVIDER_NAMES.join(", ")}`);
+        break;
+      case "model":
+      case "baseURL":
+      case "apiKeyEnv":
+        if (typeof v === "string" && v.length > 0) result[key] = v;
+        else errors.push(`"model.${key}" must be a non-empty string`);
+        break;
+      case "pricing":
+        if (
+          isPlainObject(v) &&
+          typeof v.inputPer1M === "number" &&
+          typeof v.outputPer1M === "number"
+        ) {
+          result.pricing = { inputPer1M: v.inputPer1M, outputPer1M: v.outputPer1M };
+        } else {
+          errors.push(`"model.pricing" must be { "inputPer1M": number, "outputPer1M": number }`);
+        }
+        break;
+      default:
+        errors.push(`Unknown option "model.${key}"`);
+    }
+  }
+
+  if (result.provider === "openai-compatible" && !result.baseURL) {
+    errors.push(`"model.baseURL" is required for the openai-compatible provider`);
+  }
+
+  return result;
+}
+
+/**
+ * Merges user settings over a base config.
+ * `include` replaces the defaults; `exclude` patterns are added to them so
+ * node_modules, dist etc. stay excluded unless explicitly re-included.
+ */
+export function mergeConfig(
+  base: CliffnotesConfig,
+  user: UserConfig
+): CliffnotesConfig {
+  const model = user.model
+    ? {
+        ...buildModelConfig(base.model, user.model),
+        ...(user.model.apiKeyEnv ? { apiKeyEnv: user.model.apiKeyEnv } : {}),
+        ...(user.model.pricing ? { pricing: user.model.pricing } : {}),
+      }
+    : base.model;
+
+  return {
+    ...base,
+    ...user,
+    model,
+    include: user.include ?? base.include,
+    exclude: user.exclude ? [...base.exclude, ...user.exclude] : base.exclude,
+    folders: { ...base.folders, ...user.folders },
+  };
+}
+
+/**
+ * Normalizes a folder path from config to the form used in FolderInfo.path
+ */
+export function normalizeFolderPath(path: string): string {
+  const normalized = path
+    .replace(/\\/g, "/")
+    .replace(/^\.\//, "")
+    .replace(/\/+$/, "");
+  return normalized === "" ? "." : normalized;
+}
+
+function cloneDefaults(): CliffnotesConfig {
+  return {
+    ...DEFAULT_CONFIG,
+    include: [...DEFAULT_CONFIG.include],
+    exclude: [...DEFAULT_CONFIG.exclude],
+    folders: {},
+    model: { ...DEFAULT_CONFIG.model },
+    categories: [],
+    targets: [...DEFAULT_CONFIG.targets],
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === "string");
+}
@@ -1,8 +1,12 @@
-import { glob } from "glob";
+import { glob, type IgnoreLike } from "glob";
 import ignore from "ignore";
-import { readFile } from "fs/promises";
 import { existsSync } from "fs";
-import { resolve, dirname } from "path";
+import { resolve, relative } from "path";
+import { GRAPH_FILE } from "./graph.js";
+import { INDEX_FILE, INDEX_JSONL_FILE } from "./export.js";
+import { CHANGELOG_FILE, CHANGELOG_JSON_FILE } from "./changelog.js";
+import { loadIgnoreFilter } from "./gitignore.js";
+import { isNotesPage } from "./output.js";
 import type { CliffnotesConfig, FolderInfo, FolderTree, FileAnalysis } from "./types.js";
 
 /**
@@ -12,14 +16,16 @@ export async function discoverFiles(
   rootDir: string,
   config: CliffnotesConfig
 ): Promise<{ absolute: string; relative: string }[]> {
-  // Load .gitignore if it exists
-  const ig = ignore();
-  const gitignorePath = resolve(rootDir, ".gitignore");
+  // .gitignore files at every level, git's other excludes, and .cliffnotesignore files
+  const ignoreFilter = await loadIgnoreFilter(rootDir);
 
-  if (existsSync(gitignorePath)) {
-    const gitignoreContent = await readFile(gitignorePath, "utf-8");
-    ig.add(gitignoreContent);
-  }
+  // Prune ignored folders while walking instead of listing vendored code and filtering it after
+  const pruneIgnored: IgnoreLike = {
+    ignored: p => ignoreFilter.ignores(toRelative(rootDir, p.fullpath()), p.isDirectory()),
+    childrenIgnored: p => ignoreFilter.ignores(toRelative(rootDir, p.fullpath()), true),
+  };
+
+  const ig = ignore();
 
   // Add our default excludes
   ig.add(config.exclude);
@@ -27,7 +33,19 @@ export async function discoverFiles(
   // Also exclude the output and cache files
   ig.add(config.outputFile);
   ig.add(config.cacheFile);
-  ig.add("**/CLIFFNOTES.md");
+  ig.add(`**/${config.outputFile}`);
+  ig.add(GRAPH_FILE);
+  ig.add([INDEX_FILE, INDEX_JSONL_FILE, CHANGELOG_FILE, CHANGELOG_JSON_FILE]);
+
+  // Per-folder overrides: skipped folders drop out entirely, excludes are scoped to the folder
+  for (const [folder, override] of Object.entries(config.folders)) {
+    if (override.skip) {
+      ig.add(`${folder}/`);
+    }
+    if (override.exclude) {
+      ig.add(override.exclude.map(pattern => `${folder}/${pattern.replace(/^\//, "")}`));
+    }
+  }
 
   // Find all matching files
   const allFiles: string[] = [];
@@ -38,15 +56,35 @@ export async function discoverFiles(
       nodir: true,
       absolute: false,
       dot: false,
+      ignore: pruneIgnored,
     });
     allFiles.push(...matches);
   }
 
+  // Folder-specific includes are resolved relative to their folder
+  for (const [folder, override] of Object.entries(config.folders)) {
+    if (override.skip || !override.include) continue;
+
+    const folderDir = resolve(rootDir, folder);
+    if (!existsSync(folderDir)) continue;
+
+    for (const pattern of override.include) {
+      const matches = await glob(pattern, {
+        cwd: folderDir,
+        nodir: true,
+        absolute: false,
+        dot: false,
+        ignore: pruneIgnored,
+      });
+      allFiles.push(...matches.map(match => `${folder}/${match.replace(/\\/g, "/")}`));
+    }
+  }
+
   // Deduplicate
   const uniqueFiles = [...new Set(allFiles)];
 
-  // Filter through gitignore
-  const filtered = uniqueFiles.filter((file) => !ig.ignores(file));
+  // Filter through our own excludes, and the category pages of oversized notes
+  const filtered = uniqueFiles.filter((file) => !ig.ignores(file) && !isNotesPage(file, config.outputFile));
 
   // Return with both absolute and relative paths, normalizing to forward slashes
   return filtered
@@ -152,6 +190,22 @@ export function getFoldersWithContent(tree: FolderTree): FolderInfo[] {
   return result.sort((a, b) => a.path.localeCompare(b.path));
 }
 
+/**
+ * The folder holding a file and every folder above it, up to the root
+ */
+export function folderAncestors(relativePath: string): string[] {
+  const parts = relativePath.split("/").slice(0, -1);
+  const folders = ["."];
+  for (let i = 1; i <= parts.length; i++) {
+    folders.push(parts.slice(0, i).join("/"));
+  }
+  return folders;
+}
+
+function toRelative(rootDir: string, path: string): string {
+  return relative(rootDir, path).replace(/\\/g, "/");
+}
+
 /**
  * Groups files by directory for organized output
  */
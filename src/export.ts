@@ -0,0 +1,143 @@
+import { readFile, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import { resolve } from "path";
+import { renderFileNotes } from "./output.js";
+import type {
+  CostSummary,
+  FileAnalysis,
+  FolderInfo,
+  FolderRollup,
+  IndexedFile,
+  IndexedFolder,
+  IndexRun,
+  NotesIndex,
+} from "./types.js";
+
+export const INDEX_FILE = "cliffnotes.index.json";
+export const INDEX_JSONL_FILE = "cliffnotes.index.jsonl";
+
+const INDEX_VERSION = 1;
+
+export interface NotesIndexInput {
+  folders: FolderInfo[];
+  cost: CostSummary;
+  stats: { cached: number; analyzed: number; failed: number };
+  outputFile: string;
+  rollups?: Map<string, FolderRollup>;
+  architecture?: string;
+}
+
+/**
+ * Builds the index from the same inputs as the markdown notes
+ */
+export function buildNotesIndex(input: NotesIndexInput): NotesIndex {
+  const { folders, cost, stats, outputFile, rollups = new Map() } = input;
+
+  const indexedFolders: IndexedFolder[] = folders.map(folder => {
+    const rollup = rollups.get(folder.path);
+    return {
+      path: folder.path,
+      name: folder.name,
+      parent: parentPath(folder.path),
+      children: folder.subfolders.map(sub => (folder.path === "." ? sub : `${folder.path}/${sub}`)),
+      depth: folder.depth,
+      files: folder.files.map(f => f.relativePath),
+      notesFile: folder.path === "." ? outputFile : `${folder.path}/${outputFile}`,
+      ...(rollup
+        ? { rollup: { description: rollup.description, entryPoints: rollup.entryPoints, searchTerms: rollup.searchTerms } }
+        : {}),
+    };
+  });
+
+  const files = folders
+    .flatMap(folder => folder.files.map(file => indexFile(file, folder.path)))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  return {
+    version: INDEX_VERSION,
+    run: {
+      generatedAt: new Date().toISOString(),
+      models: Object.keys(cost.byModel).sort(),
+      cost,
+      stats: { files: files.length, ...stats },
+      outputFile,
+      ...(input.architecture ? { architecture: input.architecture } : {}),
+    },
+    folders: indexedFolders,
+    files,
+  };
+}
+
+/**
+ * Writes the index next to the root CLIFFNOTES.md. JSONL puts one record per
+ * line - the run, then folders, then files - each tagged with a `type`.
+ */
+export async function writeNotesIndex(
+  rootDir: string,
+  index: NotesIndex,
+  format: "json" | "jsonl"
+): Promise<string> {
+  if (format === "json") {
+    await writeFile(resolve(rootDir, INDEX_FILE), JSON.stringify(index, null, 2) + "\n");
+    return INDEX_FILE;
+  }
+
+  const lines = [
+    JSON.stringify({ type: "run", version: index.version, ...index.run }),
+    ...index.folders.map(folder => JSON.stringify({ type: "folder", ...folder })),
+    ...index.files.map(file => JSON.stringify({ type: "file", ...file })),
+  ];
+  await writeFile(resolve(rootDir, INDEX_JSONL_FILE), lines.join("\n") + "\n");
+  return INDEX_JSONL_FILE;
+}
+
+/**
+ * Reads the index written by a previous run, JSON or JSONL.
+ * Returns undefined when there is none.
+ */
+export async function readNotesIndex(rootDir: string): Promise<NotesIndex | undefined> {
+  const jsonPath = resolve(rootDir, INDEX_FILE);
+  if (existsSync(jsonPath)) {
+    return JSON.parse(await readFile(jsonPath, "utf-8")) as NotesIndex;
+  }
+
+  const jsonlPath = resolve(rootDir, INDEX_JSONL_FILE);
+  if (!existsSync(jsonlPath)) return undefined;
+
+  let header: (IndexRun & { version: number }) | undefined;
+  const folders: IndexedFolder[] = [];
+  const files: IndexedFile[] = [];
+
+  for (const line of (await readFile(jsonlPath, "utf-8")).split("\n")) {
+    if (!line.trim()) continue;
+    const { type, ...record } = JSON.parse(line);
+    if (type === "run") header = record;
+    else if (type === "folder") folders.push(record);
+    else if (type === "file") files.push(record);
+  }
+
+  if (!header) {
+    throw new Error(`${INDEX_JSONL_FILE} has no run record`);
+  }
+  const { version, ...run } = header;
+  return { version, run, folders, files };
+}
+
+function indexFile(file: FileAnalysis, folder: string): IndexedFile {
+  return {
+    path: file.relativePath,
+    folder,
+    category: file.category,
+    hash: file.hash,
+    model: file.model,
+    tokens: file.tokens,
+    summary: renderFileNotes(file),
+    notes: file.notes,
+  };
+}
+
+function parentPath(path: string): string | null {
+  if (path === ".") return null;
+  const slash = path.lastIndexOf("/");
+  return slash === -1 ? "." : path.slice(0, slash);
+}
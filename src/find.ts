@@ -0,0 +1,142 @@
+import { readFile } from "fs/promises";
+import { existsSync } from "fs";
+import { resolve } from "path";
+import { generateObject } from "ai";
+import { z } from "zod";
+import { stripManifest } from "./manifest.js";
+import { buildFindPrompt } from "./prompt.js";
+import { resolveModel } from "./providers.js";
+import { withRetry } from "./retry.js";
+import { countTokens } from "./tokens.js";
+import type { ModelConfig } from "./types.js";
+
+export interface FindOptions {
+  model: ModelConfig;
+  outputFile: string;
+  maxDepth: number;       // Deepest folder level to read (root = 0)
+  maxTokens: number;      // Total input + output tokens the walk may spend
+  maxRetries: number;
+  onStep?: (notesFile: string) => void;
+}
+
+export interface FindResult {
+  task: string;
+  relevantFiles: string[];
+  navigationPath: string[];   // Notes files read, in order
+  reasoning: string[];        // One line per folder that contributed
+  stoppedBy: "complete" | "max-depth" | "token-budget";
+  model: string;
+  tokens: { input: number; output: number };
+}
+
+// What the model returns for each folder it reads
+const STEP_SCHEMA = z.object({
+  files: z.array(z.string()).default([]).describe("Source files listed in these notes that are relevant to the task"),
+  descend: z.array(z.string()).default([]).describe("Subfolder names from the Subfolders section worth reading next"),
+  reasoning: z.string().default("").describe("One sentence on why"),
+});
+
+// Room for the model's answer when checking the budget before a call
+const RESPONSE_TOKENS = 1024;
+
+/**
+ * Walks the notes hierarchy the way the context-finder agent does: read the
+ * root notes, keep the relevant files, descend into the relevant subfolders,
+ * and stop when nothing else looks relevant, the depth limit is reached, or
+ * the token budget would be exceeded.
+ */
+export async function findRelevantFiles(
+  rootDir: string,
+  task: string,
+  options: FindOptions
+): Promise<FindResult> {
+  const model = resolveModel(options.model);
+  const result: FindResult = {
+    task,
+    relevantFiles: [],
+    navigationPath: [],
+    reasoning: [],
+    stoppedBy: "complete",
+    model: model.id,
+    tokens: { input: 0, output: 0 },
+  };
+  const selected = new Set<string>();
+
+  // Breadth-first, so a tight budget is spent on the upper levels first
+  const queue: { folder: string; depth: number }[] = [{ folder: ".", depth: 0 }];
+  const visited = new Set<string>();
+
+  while (queue.length > 0) {
+    const { folder, depth } = queue.shift()!;
+    if (visited.has(folder)) continue;
+    visited.add(folder);
+
+    const notesFile = folder === "." ? options.outputFile : `${folder}/${options.outputFile}`;
+    const notesPath = resolve(rootDir, notesFile);
+    if (!existsSync(notesPath)) continue;
+
+    const notes = stripManifest(await readFile(notesPath, "utf-8"));
+    const prompt = buildFindPrompt(task, folder, notes, [...selected]);
+
+    const spent = result.tokens.input + result.tokens.output;
+    if (spent + (await countTokens(prompt)) + RESPONSE_TOKENS > options.maxTokens) {
+      result.stoppedBy = "token-budget";
+      break;
+    }
+
+    options.onStep?.(notesFile);
+    result.navigationPath.push(notesFile);
+
+    const response = await withRetry(
+      () => generateObject({
+        model: model.languageModel,
+        mode: model.objectMode,
+        schema: STEP_SCHEMA,
+        schemaName: "navigation_step",
+        prompt,
+        maxTokens: RESPONSE_TOKENS,
+        maxRetries: 0,
+      }),
+      { maxRetries: options.maxRetries }
+    );
+    result.tokens.input += response.usage?.promptTokens ?? 0;
+    result.tokens.output += response.usage?.completionTokens ?? 0;
+
+    const step = response.object;
+    const added: string[] = [];
+    for (const file of step.files) {
+      const path = normalizeSelection(file, folder);
+      // Only keep real files - the model sometimes names a folder or invents a path
+      if (!selected.has(path) && existsSync(resolve(rootDir, path)) && !path.endsWith(options.outputFile)) {
+        selected.add(path);
+        added.push(path);
+      }
+    }
+    if (step.reasoning && (added.length > 0 || step.descend.length > 0)) {
+      result.reasoning.push(`${notesFile}: ${step.reasoning}`);
+    }
+
+    for (const sub of step.descend) {
+      const name = sub.replace(/\/+$/, "").split("/").pop()!;
+      const child = folder === "." ? name : `${folder}/${name}`;
+      if (depth + 1 > options.maxDepth) {
+        result.stoppedBy = "max-depth";
+        continue;
+      }
+      queue.push({ folder: child, depth: depth + 1 });
+    }
+  }
+
+  result.relevantFiles = [...selected].sort();
+  return result;
+}
+
+/**
+ * Notes list files by name within their folder; accept either that or a
+ * path from the project root.
+ */
+function normalizeSelection(file: string, folder: string): string {
+  const cleaned = file.trim().replace(/^`|`$/g, "").replace(/^\.\//, "");
+  if (folder === "." || cleaned.startsWith(`${folder}/`)) return cleaned;
+  return cleaned.includes("/") && !cleaned.startsWith(".") ? cleaned : `${folder}/${cleaned}`;
+}
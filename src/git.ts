@@ -0,0 +1,98 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+
+const run = promisify(execFile);
+
+// Diffs of large monorepos can be long
+const MAX_OUTPUT = 64 * 1024 * 1024;
+
+export interface GitScope {
+  since?: string;    // Changes between this ref and the working tree, plus untracked files
+  staged?: boolean;  // Changes staged for the next commit
+}
+
+export interface GitChange {
+  status: "added" | "modified" | "deleted" | "renamed";
+  path: string;      // Relative to the directory being analyzed
+  from?: string;     // Previous path of a rename
+}
+
+/**
+ * Lists changed files with `git diff --name-status`. Paths are relative to
+ * `rootDir`, and changes outside it are left out.
+ */
+export async function getGitChanges(rootDir: string, scope: GitScope): Promise<GitChange[]> {
+  if (scope.since) {
+    await git(rootDir, ["rev-parse", "--verify", "--quiet", `${scope.since}^{commit}`])
+      .catch(() => {
+        throw new Error(`--since: "${scope.since}" is not a commit in this repository`);
+      });
+  }
+
+  const diffArgs = scope.staged
+    ? ["diff", "--cached", "--name-status", "-M", "-z", "--relative"]
+    : ["diff", "--name-status", "-M", "-z", "--relative", scope.since!];
+  const changes = parseNameStatus(await git(rootDir, diffArgs));
+
+  // New files nobody has added yet are changes too, except for a pre-commit hook
+  if (!scope.staged) {
+    const untracked = await git(rootDir, ["ls-files", "--others", "--exclude-standard", "-z"]);
+    for (const path of untracked.split("\0").filter(Boolean)) {
+      changes.push({ status: "added", path });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * The user's global excludes file (`core.excludesFile`), if one is set
+ */
+export async function getGlobalExcludesFile(cwd: string): Promise<string | undefined> {
+  const path = (await git(cwd, ["config", "--path", "--get", "core.excludesFile"])).trim();
+  return path || undefined;
+}
+
+/**
+ * Parses `--name-status -z` output: a status, then one path, or two for
+ * renames and copies
+ */
+function parseNameStatus(output: string): GitChange[] {
+  const fields = output.split("\0").filter(Boolean);
+  const changes: GitChange[] = [];
+
+  for (let i = 0; i < fields.length; i++) {
+    const status = fields[i];
+    switch (status[0]) {
+      case "R":
+        changes.push({ status: "renamed", from: fields[++i], path: fields[++i] });
+        break;
+      case "C":
+        // A copy leaves the source untouched
+        i++;
+        changes.push({ status: "added", path: fields[++i] });
+        break;
+      case "A":
+        changes.push({ status: "added", path: fields[++i] });
+        break;
+      case "D":
+        changes.push({ status: "deleted", path: fields[++i] });
+        break;
+      default:
+        // M, T (type change) and U (unmerged)
+        changes.push({ status: "modified", path: fields[++i] });
+    }
+  }
+
+  return changes;
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await run("git", args, { cwd, maxBuffer: MAX_OUTPUT });
+    return stdout;
+  } catch (err) {
+    const stderr = (err as { stderr?: string }).stderr?.trim();
+    throw new Error(`git ${args[0]} failed: ${stderr || (err as Error).message}`);
+  }
+}
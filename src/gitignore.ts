@@ -0,0 +1,225 @@
+import { readFileSync, existsSync, statSync } from "fs";
+import { readFile } from "fs/promises";
+import { dirname, relative, resolve } from "path";
+import { homedir } from "os";
+import { getGlobalExcludesFile } from "./git.js";
+
+/**
+ * Like .gitignore, for files that belong in git but not in the notes
+ * (fixtures, seed data, generated clients)
+ */
+export const CLIFFNOTES_IGNORE_FILE = ".cliffnotesignore";
+
+interface IgnoreRule {
+  base: string;      // Folder the rule's file sits in, relative to the top of its hierarchy ("" = top)
+  pattern: RegExp;
+  negated: boolean;
+  dirOnly: boolean;
+  anchored: boolean; // Matched against the path from `base`, not just the name
+}
+
+/**
+ * Decides which paths to leave out, the way git does: .gitignore files in
+ * every folder (from the repository root down, even above the analyzed
+ * directory), .git/info/exclude and the global excludes file - plus
+ * .cliffnotesignore files, which can only remove more.
+ */
+export interface IgnoreFilter {
+  /** `relativePath` is from the analyzed directory, with forward slashes */
+  ignores(relativePath: string, isDir?: boolean): boolean;
+}
+
+export async function loadIgnoreFilter(rootDir: string): Promise<IgnoreFilter> {
+  const repo = findRepository(rootDir);
+
+  // Outside a repository only the ignore files themselves apply, as before
+  const gitBase: IgnoreRule[] = [];
+  if (repo) {
+    const globalFile = await getGlobalExcludesFile(rootDir).catch(() => undefined) ?? defaultGlobalExcludesFile();
+    gitBase.push(...await readRules(globalFile, ""));
+    gitBase.push(...await readRules(resolve(repo.gitDir, "info", "exclude"), ""));
+  }
+
+  const git = new IgnoreHierarchy(repo?.root ?? rootDir, rootDir, ".gitignore", gitBase);
+  const notes = new IgnoreHierarchy(rootDir, rootDir, CLIFFNOTES_IGNORE_FILE, []);
+  return {
+    ignores: (relativePath, isDir = false) =>
+      git.ignores(relativePath, isDir) || notes.ignores(relativePath, isDir),
+  };
+}
+
+/**
+ * One kind of ignore file, read from every folder under `top`. Deeper files
+ * override shallower ones, the last matching rule wins, and nothing inside an
+ * ignored folder can be re-included - git doesn't even look in there.
+ */
+class IgnoreHierarchy {
+  private readonly offset: string;
+  private readonly rulesByDir = new Map<string, IgnoreRule[]>();
+  private readonly decided = new Map<string, boolean>();
+
+  constructor(
+    private readonly top: string,
+    rootDir: string,
+    private readonly fileName: string,
+    private readonly baseRules: IgnoreRule[]
+  ) {
+    this.offset = relative(top, rootDir).replace(/\\/g, "/");
+  }
+
+  ignores(relativePath: string, isDir: boolean): boolean {
+    const parts = relativePath.split("/").filter(Boolean);
+    const skip = this.offset ? this.offset.split("/").length : 0;
+    const full = this.offset ? [...this.offset.split("/"), ...parts] : parts;
+
+    // Folders above the analyzed directory aren't judged, only their ignore files are read
+    for (let depth = skip + 1; depth < full.length; depth++) {
+      if (this.ignoredAt(full.slice(0, depth), true)) return true;
+    }
+    return full.length > skip && this.ignoredAt(full, isDir);
+  }
+
+  private ignoredAt(parts: string[], isDir: boolean): boolean {
+    const path = parts.join("/");
+    const key = isDir ? `${path}/` : path;
+    const known = this.decided.get(key);
+    if (known !== undefined) return known;
+
+    let ignored = false;
+    const rules = [...this.baseRules];
+    for (let depth = 0; depth < parts.length; depth++) {
+      rules.push(...this.rulesIn(parts.slice(0, depth).join("/")));
+    }
+    for (const rule of rules) {
+      if (rule.dirOnly && !isDir) continue;
+      const fromBase = rule.base ? path.slice(rule.base.length + 1) : path;
+      const subject = rule.anchored ? fromBase : fromBase.slice(fromBase.lastIndexOf("/") + 1);
+      if (rule.pattern.test(subject)) ignored = !rule.negated;
+    }
+
+    this.decided.set(key, ignored);
+    return ignored;
+  }
+
+  private rulesIn(dir: string): IgnoreRule[] {
+    let rules = this.rulesByDir.get(dir);
+    if (!rules) {
+      const file = resolve(this.top, dir, this.fileName);
+      rules = existsSync(file) ? parseRules(readFileSync(file, "utf-8"), dir) : [];
+      this.rulesByDir.set(dir, rules);
+    }
+    return rules;
+  }
+}
+
+async function readRules(file: string, base: string): Promise<IgnoreRule[]> {
+  if (!existsSync(file)) return [];
+  try {
+    return parseRules(await readFile(file, "utf-8"), base);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Parses gitignore syntax: comments, `!` negation, a trailing `/` for
+ * folders only, a leading or inner `/` to anchor the pattern to its file's
+ * folder, and `*`, `?`, `[...]` and `**` wildcards
+ */
+function parseRules(content: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are dropped unless escaped
+    let line = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) continue;
+
+    const negated = line.startsWith("!");
+    if (negated) line = line.slice(1);
+    else if (line.startsWith("\\!") || line.startsWith("\\#")) line = line.slice(1);
+
+    const dirOnly = line.endsWith("/");
+    if (dirOnly) line = line.replace(/\/+$/, "");
+    const anchored = line.includes("/");
+    line = line.replace(/^\//, "");
+    if (!line) continue;
+
+    rules.push({ base, pattern: compilePattern(line), negated, dirOnly, anchored });
+  }
+
+  return rules;
+}
+
+function compilePattern(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const atSegmentStart = i === 0 || pattern[i - 1] === "/";
+
+    if (char === "*" && pattern[i + 1] === "*" && atSegmentStart && (i + 2 === pattern.length || pattern[i + 2] === "/")) {
+      // "**/" matches zero or more folders; a trailing "/**" everything inside
+      if (i + 2 === pattern.length) {
+        source += ".*";
+      } else {
+        source += "(?:.*/)?";
+        i++;
+      }
+      i++;
+    } else if (char === "*") {
+      source += "[^/]*";
+      while (pattern[i + 1] === "*") i++;
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = pattern.indexOf("]", i + 2);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        const body = pattern.slice(i + 1, end).replace(/^!/, "^");
+        source += `[${body}]`;
+        i = end;
+      }
+    } else if (char === "\\" && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * The repository containing `dir`, found by walking up to a `.git` folder
+ * (or a `.git` file, for worktrees and submodules)
+ */
+function findRepository(dir: string): { root: string; gitDir: string } | undefined {
+  let current = resolve(dir);
+  while (true) {
+    const dotGit = resolve(current, ".git");
+    if (existsSync(dotGit)) {
+      if (statSync(dotGit).isDirectory()) return { root: current, gitDir: dotGit };
+      const pointer = readFileSync(dotGit, "utf-8").match(/^gitdir:\s*(.+)$/m);
+      if (pointer) {
+        const gitDir = resolve(current, pointer[1].trim());
+        // A worktree shares info/exclude with the main repository
+        const commonDir = resolve(gitDir, "commondir");
+        return {
+          root: current,
+          gitDir: existsSync(commonDir) ? resolve(gitDir, readFileSync(commonDir, "utf-8").trim()) : gitDir,
+        };
+      }
+    }
+    const parent = dirname(current);
+    if (parent === current) return undefined;
+    current = parent;
+  }
+}
+
+function defaultGlobalExcludesFile(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || resolve(homedir(), ".config");
+  return resolve(configHome, "git", "ignore");
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
@@ -0,0 +1,180 @@
+import ts from "typescript";
+import { readFile, writeFile } from "fs/promises";
+import { dirname, relative, resolve } from "path";
+
+export const GRAPH_FILE = "cliffnotes.graph.json";
+
+// Files we can parse for import/export/require statements
+const PARSEABLE = /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/;
+
+export interface ImportGraph {
+  imports: Map<string, string[]>;     // file -> project files it imports
+  importedBy: Map<string, string[]>;  // file -> project files that import it
+  external: Map<string, string[]>;    // file -> package names it imports
+}
+
+/**
+ * Builds the static import graph for the discovered files using the
+ * TypeScript compiler API. Specifiers are resolved with the nearest
+ * tsconfig.json (paths, baseUrl) and the usual index/extension rules.
+ * Only edges between files in `files` are kept. Costs no tokens.
+ */
+export async function buildImportGraph(
+  rootDir: string,
+  files: { absolute: string; relative: string }[]
+): Promise<ImportGraph> {
+  const byAbsolute = new Map(files.map(f => [normalize(f.absolute), f.relative]));
+  const imports = new Map<string, string[]>();
+  const importedBy = new Map<string, string[]>();
+  const external = new Map<string, string[]>();
+  const resolver = new ModuleResolver(rootDir);
+
+  for (const file of files) {
+    imports.set(file.relative, []);
+    importedBy.set(file.relative, []);
+  }
+
+  for (const file of files) {
+    if (!PARSEABLE.test(file.relative)) continue;
+
+    let content: string;
+    try {
+      content = await readFile(file.absolute, "utf-8");
+    } catch {
+      continue;
+    }
+
+    // preProcessFile picks up import/export-from/require/dynamic import without a full parse
+    const { importedFiles } = ts.preProcessFile(content, true, true);
+    const targets = new Set<string>();
+    const packages = new Set<string>();
+
+    for (const { fileName: specifier } of importedFiles) {
+      const resolved = resolver.resolve(specifier, file.absolute);
+      const target = resolved && byAbsolute.get(normalize(resolved));
+
+      if (target && target !== file.relative) {
+        targets.add(target);
+      } else if (!target && !specifier.startsWith(".") && !specifier.startsWith("/")) {
+        packages.add(packageName(specifier));
+      }
+    }
+
+    imports.set(file.relative, [...targets].sort());
+    for (const target of targets) {
+      importedBy.get(target)!.push(file.relative);
+    }
+    if (packages.size > 0) {
+      external.set(file.relative, [...packages].sort());
+    }
+  }
+
+  for (const list of importedBy.values()) list.sort();
+
+  return { imports, importedBy, external };
+}
+
+/**
+ * Writes the graph as JSON next to the root CLIFFNOTES.md
+ */
+export async function writeImportGraph(rootDir: string, graph: ImportGraph): Promise<void> {
+  const files: Record<string, { imports: string[]; importedBy: string[]; external: string[] }> = {};
+
+  for (const path of [...graph.imports.keys()].sort()) {
+    files[path] = {
+      imports: graph.imports.get(path) ?? [],
+      importedBy: graph.importedBy.get(path) ?? [],
+      external: graph.external.get(path) ?? [],
+    };
+  }
+
+  await writeFile(
+    resolve(rootDir, GRAPH_FILE),
+    JSON.stringify({ version: 1, generatedAt: new Date().toISOString(), files }, null, 2) + "\n"
+  );
+}
+
+/**
+ * Resolves module specifiers against the nearest tsconfig.json, caching
+ * parsed configs per directory so monorepo packages get their own paths.
+ */
+class ModuleResolver {
+  private optionsByDir = new Map<string, ts.CompilerOptions>();
+  private optionsByConfig = new Map<string, ts.CompilerOptions>();
+  private caches = new Map<ts.CompilerOptions, ts.ModuleResolutionCache>();
+
+  constructor(private readonly rootDir: string) {}
+
+  resolve(specifier: string, containingFile: string): string | undefined {
+    const options = this.optionsFor(dirname(containingFile));
+    let cache = this.caches.get(options);
+    if (!cache) {
+      cache = ts.createModuleResolutionCache(this.rootDir, f => f, options);
+      this.caches.set(options, cache);
+    }
+
+    const { resolvedModule } = ts.resolveModuleName(specifier, containingFile, options, ts.sys, cache);
+    if (!resolvedModule || resolvedModule.isExternalLibraryImport) return undefined;
+    return resolvedModule.resolvedFileName;
+  }
+
+  private optionsFor(dir: string): ts.CompilerOptions {
+    const cached = this.optionsByDir.get(dir);
+    if (cached) return cached;
+
+    // Stop at the project root - configs above it don't belong to this project
+    const configPath = ts.findConfigFile(dir, ts.sys.fileExists);
+    const inProject = configPath && !relative(this.rootDir, configPath).startsWith("..");
+    const options = inProject ? this.loadOptions(configPath) : this.defaultOptions();
+
+    this.optionsByDir.set(dir, options);
+    return options;
+  }
+
+  private loadOptions(configPath: string): ts.CompilerOptions {
+    const cached = this.optionsByConfig.get(configPath);
+    if (cached) return cached;
+
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    const options = error
+      ? this.defaultOptions()
+      : withResolutionDefaults(ts.parseJsonConfigFileContent(config, ts.sys, dirname(configPath)).options);
+
+    this.optionsByConfig.set(configPath, options);
+    return options;
+  }
+
+  private defaultOptions(): ts.CompilerOptions {
+    return withResolutionDefaults({});
+  }
+}
+
+/**
+ * Makes sure .js files and extensionless/index imports resolve even when
+ * the tsconfig (or its absence) would use stricter rules.
+ */
+function withResolutionDefaults(options: ts.CompilerOptions): ts.CompilerOptions {
+  const useBundler =
+    options.moduleResolution === undefined ||
+    options.moduleResolution === ts.ModuleResolutionKind.Classic;
+
+  return {
+    ...options,
+    allowJs: true,
+    ...(useBundler
+      ? { moduleResolution: ts.ModuleResolutionKind.Bundler, module: ts.ModuleKind.ESNext }
+      : {}),
+  };
+}
+
+/**
+ * "@scope/pkg/sub/path" -> "@scope/pkg", "pkg/sub" -> "pkg", "node:fs" -> "node:fs"
+ */
+function packageName(specifier: string): string {
+  const parts = specifier.split("/");
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+}
+
+function normalize(path: string): string {
+  return path.replace(/\\/g, "/");
+}
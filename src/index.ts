@@ -1,25 +1,52 @@
 #!/usr/bin/env node
 
 import { resolve, join } from "path";
-import { existsSync, readFileSync } from "fs";
+import { existsSync, readFileSync, statSync } from "fs";
+import { readFile, writeFile } from "fs/promises";
 import { homedir } from "os";
-import { loadCache, saveCache, pruneCache } from "./cache.js";
+import {
+  loadCache,
+  saveCache,
+  pruneCache,
+  parseCache,
+  cacheStats,
+  collectGarbage,
+  mergeCache,
+  CacheCheckpointer,
+} from "./cache.js";
 import { discoverFiles, buildFolderTree, getFoldersWithContent } from "./discovery.js";
-import { analyzeFiles, calculateCost } from "./analyzer.js";
-import { writeAllCliffnotes, writeContextFinderAgent } from "./output.js";
-import { DEFAULT_CONFIG, type CliffnotesConfig } from "./types.js";
+import { analyzeFiles, calculateCost, type ProgressStatus } from "./analyzer.js";
+import { removeCliffnotes, writeAllCliffnotes } from "./output.js";
+import { loadConfig, workspaceAnalysisSettings } from "./config.js";
+import { buildModelConfig, getApiKeyEnv, getModelId, isLocalProvider } from "./providers.js";
+import { generateFolderRollups, type RollupResult } from "./rollup.js";
+import { generateArchitectureOverview } from "./architecture.js";
+import { buildImportGraph, writeImportGraph, GRAPH_FILE } from "./graph.js";
+import { Categories } from "./categories.js";
+import { buildNotesIndex, writeNotesIndex } from "./export.js";
+import { loadSearchDocuments, searchNotes } from "./search.js";
+import { findRelevantFiles } from "./find.js";
+import { serveMcp } from "./mcp.js";
+import { watchProject, type WatchUpdate } from "./watch.js";
+import { checkNotes } from "./manifest.js";
+import { scopeToGitChanges, scopeToWorkspace } from "./scope.js";
+import { findWorkspace } from "./workspaces.js";
+import { isTargetName, readProjectName, writeTargets, TARGET_NAMES } from "./targets.js";
+import { buildBundle, loadExistingNotes } from "./bundle.js";
+import { buildChangelog, hasChanges, snapshotNotes, writeChangelog, CHANGELOG_FILE } from "./changelog.js";
+import type { AnalysisFailure, ArchitectureEntry, CostSummary, ModelConfig, NotesChangelog, RollupEntry, TargetName } from "./types.js";
 
 /**
- * Load API key from various locations (in order of priority):
- * 1. ANTHROPIC_API_KEY env var (already set)
+ * Load an API key from various locations (in order of priority):
+ * 1. The env var itself (e.g. ANTHROPIC_API_KEY, already set)
  * 2. .env in target directory
  * 3. ~/.cliffnotes/.env
  * 4. ~/.config/cliffnotes/.env
  */
-function loadApiKey(targetDir: string): string | undefined {
+function loadApiKey(targetDir: string, envVar: string): string | undefined {
   // Already set in environment
-  if (process.env.ANTHROPIC_API_KEY) {
-    return process.env.ANTHROPIC_API_KEY;
+  if (process.env[envVar]) {
+    return process.env[envVar];
   }
 
   const locations = [
@@ -32,7 +59,7 @@ function loadApiKey(targetDir: string): string | undefined {
     if (existsSync(loc)) {
       try {
         const content = readFileSync(loc, "utf-8");
-        const match = content.match(/^ANTHROPIC_API_KEY=(.+)$/m);
+        const match = content.match(new RegExp(`^${envVar}=(.+)$`, "m"));
         if (match) {
           return match[1].trim().replace(/^["']|["']$/g, "");
         }
@@ -45,6 +72,32 @@ function loadApiKey(targetDir: string): string | undefined {
   return undefined;
 }
 
+/**
+ * Loads the API key for a model into the env, exiting with setup help when a
+ * hosted provider has none. Local servers don't need one.
+ */
+function requireApiKey(rootDir: string, model: ModelConfig) {
+  const apiKeyEnv = getApiKeyEnv(model);
+  if (!apiKeyEnv) return;
+
+  const apiKey = loadApiKey(rootDir, apiKeyEnv);
+  if (!apiKey && !isLocalProvider(model.provider)) {
+    log(`${colors.red}Error: ${apiKeyEnv} not found${colors.reset}`);
+    log(`
+Set it via:
+  1. Environment variable: export ${apiKeyEnv}=your-key
+  2. .env file in your project directory
+  3. ~/.cliffnotes/.env
+  4. ~/.config/cliffnotes/.env`);
+    process.exit(1);
+  }
+
+  // Set it in env for the model provider to use
+  if (apiKey) {
+    process.env[apiKeyEnv] = apiKey;
+  }
+}
+
 // ANSI colors for terminal output
 const colors = {
   reset: "\x1b[0m",
@@ -63,18 +116,556 @@ function log(message: string) {
 
 function logProgress(
   file: string,
-  cached: boolean,
+  status: ProgressStatus,
   current: number,
   total: number
 ) {
   const percent = Math.round((current / total) * 100);
   const bar = "█".repeat(Math.floor(percent / 5)) + "░".repeat(20 - Math.floor(percent / 5));
-  const status = cached
-    ? `${colors.dim}[cached]${colors.reset}`
+  const label =
+    status === "cached" ? `${colors.dim}[cached]${colors.reset}`
+    : status === "failed" ? `${colors.red}[failed]${colors.reset}`
     : `${colors.green}[analyzed]${colors.reset}`;
 
   // Clear line and write progress
-  process.stdout.write(`\r${colors.cyan}[${bar}]${colors.reset} ${percent}% ${status} ${file.slice(0, 50).padEnd(50)}`);
+  process.stdout.write(`\r${colors.cyan}[${bar}]${colors.reset} ${percent}% ${label} ${file.slice(0, 50).padEnd(50)}`);
+}
+
+interface CliOptions {
+  directory: string;
+  concurrency?: number;
+  retries?: number;
+  chunkTokens?: number;
+  notesTokens?: number;
+  configPath?: string;
+  provider?: string;
+  model?: string;
+  baseURL?: string;
+  writePartial: boolean;
+  watch: boolean;
+  since?: string;
+  staged: boolean;
+  workspace?: string;
+  rollups?: boolean;
+  architecture?: boolean;
+  graph?: boolean;
+  index?: "json" | "jsonl" | false;
+  changelog?: boolean;
+  targets?: TargetName[];
+}
+
+/**
+ * Parses CLI flags. The first non-flag argument is the target directory.
+ */
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = { directory: ".", writePartial: false, watch: false, staged: false };
+  let directorySet = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--concurrency" || arg === "-c") {
+      options.concurrency = parseInt(args[++i], 10);
+      if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+        throw new Error(`${arg} expects a positive integer`);
+      }
+    } else if (arg === "--retries") {
+      options.retries = parseInt(args[++i], 10);
+      if (!Number.isInteger(options.retries) || options.retries < 0) {
+        throw new Error(`${arg} expects a non-negative integer`);
+      }
+    } else if (arg === "--chunk-tokens") {
+      options.chunkTokens = parseInt(args[++i], 10);
+      if (!Number.isInteger(options.chunkTokens) || options.chunkTokens < 1000) {
+        throw new Error(`${arg} expects an integer of at least 1000`);
+      }
+    } else if (arg === "--notes-tokens") {
+      options.notesTokens = parseInt(args[++i], 10);
+      if (!Number.isInteger(options.notesTokens) || options.notesTokens < 1000) {
+        throw new Error(`${arg} expects an integer of at least 1000`);
+      }
+    } else if (arg === "--index") {
+      const format = args[++i];
+      if (format !== "json" && format !== "jsonl") {
+        throw new Error(`${arg} expects "json" or "jsonl"`);
+      }
+      options.index = format;
+    } else if (arg === "--no-index") {
+      options.index = false;
+    } else if (arg === "--targets") {
+      const value = args[++i];
+      const names = value === "all" ? TARGET_NAMES : value?.split(",").map(name => name.trim()).filter(Boolean) ?? [];
+      const unknown = names.filter(name => !isTargetName(name));
+      if (names.length === 0 || unknown.length > 0) {
+        throw new Error(`${arg} expects a comma-separated list of: ${TARGET_NAMES.join(", ")} (or "all")`);
+      }
+      options.targets = [...new Set(names as TargetName[])];
+    } else if (arg === "--no-changelog") {
+      options.changelog = false;
+    } else if (arg === "--no-rollups") {
+      options.rollups = false;
+    } else if (arg === "--no-architecture") {
+      options.architecture = false;
+    } else if (arg === "--no-graph") {
+      options.graph = false;
+    } else if (arg === "--write-partial") {
+      options.writePartial = true;
+    } else if (arg === "--watch" || arg === "-w") {
+      options.watch = true;
+    } else if (arg === "--since") {
+      options.since = args[++i];
+      if (!options.since) {
+        throw new Error("--since expects a git ref");
+      }
+    } else if (arg === "--staged") {
+      options.staged = true;
+    } else if (arg === "--workspace") {
+      options.workspace = args[++i];
+      if (!options.workspace) {
+        throw new Error("--workspace expects a workspace name or folder");
+      }
+    } else if (arg === "--config") {
+      options.configPath = args[++i];
+      if (!options.configPath) {
+        throw new Error("--config expects a path");
+      }
+    } else if (arg === "--provider" || arg === "--model" || arg === "--base-url") {
+      const value = args[++i];
+      if (!value) {
+        throw new Error(`${arg} expects a value`);
+      }
+      if (arg === "--provider") options.provider = value;
+      else if (arg === "--model") options.model = value;
+      else options.baseURL = value;
+    } else if (!arg.startsWith("-") && !directorySet) {
+      options.directory = arg;
+      directorySet = true;
+    }
+  }
+
+  return options;
+}
+
+/**
+ * `cliffnotes search "<query>" [directory]` - ranks files from the local
+ * index or cache. Makes no API calls.
+ */
+async function runSearch(args: string[]) {
+  let query: string | undefined;
+  let directory = ".";
+  let configPath: string | undefined;
+  let json = false;
+  let limit = 10;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--json") {
+      json = true;
+    } else if (arg === "--limit" || arg === "-n") {
+      limit = parseInt(args[++i], 10);
+      if (!Number.isInteger(limit) || limit < 1) {
+        throw new Error(`${arg} expects a positive integer`);
+      }
+    } else if (arg === "--config") {
+      configPath = args[++i];
+    } else if (!arg.startsWith("-")) {
+      if (query === undefined) query = arg;
+      else directory = arg;
+    }
+  }
+
+  if (!query?.trim()) {
+    throw new Error(`Usage: cliffnotes search "<query>" [directory] [--json] [--limit <n>]`);
+  }
+
+  const rootDir = resolve(directory);
+  const { config } = await loadConfig(rootDir, configPath);
+  const { documents, source } = await loadSearchDocuments(rootDir, config);
+  if (documents.length === 0) {
+    throw new Error(`No notes found in ${rootDir}. Run cliffnotes there first.`);
+  }
+
+  const results = searchNotes(documents, query, limit);
+
+  if (json) {
+    console.log(JSON.stringify({ query, source, results }, null, 2));
+  } else if (results.length === 0) {
+    log(`${colors.yellow}No matches for "${query}"${colors.reset} ${colors.dim}(searched ${documents.length} files from ${source})${colors.reset}`);
+  } else {
+    results.forEach((r, i) => {
+      log(`${colors.dim}${String(i + 1).padStart(2)}.${colors.reset} ${colors.bright}${r.path}${colors.reset} ${colors.dim}(${r.category}, score ${r.score})${colors.reset}`);
+      if (r.snippet) log(`    ${r.snippet}`);
+    });
+    log(`\n${colors.dim}${results.length} of ${documents.length} files from ${source}${colors.reset}`);
+  }
+
+  // Like grep: no match is a non-zero exit
+  if (results.length === 0) process.exitCode = 1;
+}
+
+/**
+ * `cliffnotes find "<task>" [directory]` - has the model walk the notes
+ * hierarchy from the root and list the files to read for a task.
+ */
+async function runFind(args: string[]) {
+  let task: string | undefined;
+  let directory = ".";
+  let configPath: string | undefined;
+  let json = false;
+  let maxDepth = 6;
+  let maxTokens = 50_000;
+  let retries: number | undefined;
+  const modelOverrides: { provider?: string; model?: string; baseURL?: string } = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--json") {
+      json = true;
+    } else if (arg === "--max-depth") {
+      maxDepth = parseInt(args[++i], 10);
+      if (!Number.isInteger(maxDepth) || maxDepth < 0) {
+        throw new Error(`${arg} expects a non-negative integer`);
+      }
+    } else if (arg === "--max-tokens") {
+      maxTokens = parseInt(args[++i], 10);
+      if (!Number.isInteger(maxTokens) || maxTokens < 1) {
+        throw new Error(`${arg} expects a positive integer`);
+      }
+    } else if (arg === "--retries") {
+      retries = parseInt(args[++i], 10);
+      if (!Number.isInteger(retries) || retries < 0) {
+        throw new Error(`${arg} expects a non-negative integer`);
+      }
+    } else if (arg === "--config") {
+      configPath = args[++i];
+    } else if (arg === "--provider" || arg === "--model" || arg === "--base-url") {
+      const value = args[++i];
+      if (!value) {
+        throw new Error(`${arg} expects a value`);
+      }
+      if (arg === "--provider") modelOverrides.provider = value;
+      else if (arg === "--model") modelOverrides.model = value;
+      else modelOverrides.baseURL = value;
+    } else if (!arg.startsWith("-")) {
+      if (task === undefined) task = arg;
+      else directory = arg;
+    }
+  }
+
+  if (!task?.trim()) {
+    throw new Error(`Usage: cliffnotes find "<task>" [directory] [--json] [--max-depth <n>] [--max-tokens <n>]`);
+  }
+
+  const rootDir = resolve(directory);
+  const { config } = await loadConfig(rootDir, configPath);
+  if (!existsSync(join(rootDir, config.outputFile))) {
+    throw new Error(`No ${config.outputFile} found in ${rootDir}. Run cliffnotes there first.`);
+  }
+
+  config.model = buildModelConfig(config.model, modelOverrides);
+  requireApiKey(rootDir, config.model);
+
+  const result = await findRelevantFiles(rootDir, task, {
+    model: config.model,
+    outputFile: config.outputFile,
+    maxDepth,
+    maxTokens,
+    maxRetries: retries ?? config.maxRetries,
+    onStep: json ? undefined : notesFile => log(`${colors.dim}Reading ${notesFile}${colors.reset}`),
+  });
+
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    log(`
+${colors.bright}### Relevant Files${colors.reset}
+
+\`\`\`
+${result.relevantFiles.join("\n") || "(none found)"}
+\`\`\`
+
+${colors.bright}### Navigation Path${colors.reset}
+
+${result.navigationPath.map((file, i) => `${i + 1}. \`${file}\`${i === 0 ? " (root)" : ""}`).join("\n")}
+
+${colors.bright}### Reasoning${colors.reset}
+
+${result.reasoning.map(line => `- ${line}`).join("\n") || "(none given)"}
+`);
+    if (result.stoppedBy !== "complete") {
+      const limit = result.stoppedBy === "max-depth" ? `--max-depth ${maxDepth}` : `--max-tokens ${maxTokens}`;
+      log(`${colors.yellow}Stopped early at ${limit}; raise it to search deeper.${colors.reset}`);
+    }
+    log(`${colors.dim}${result.tokens.input.toLocaleString()} in / ${result.tokens.output.toLocaleString()} out tokens (${result.model})${colors.reset}`);
+  }
+
+  if (result.relevantFiles.length === 0) process.exitCode = 1;
+}
+
+/**
+ * `cliffnotes serve --mcp [directory]` - serves the notes as MCP tools on
+ * stdio. Logs go to stderr; stdout is the protocol channel.
+ */
+async function runServe(args: string[]) {
+  let directory = ".";
+  let configPath: string | undefined;
+  let mcp = false;
+  const modelOverrides: { provider?: string; model?: string; baseURL?: string } = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--mcp") {
+      mcp = true;
+    } else if (arg === "--config") {
+      configPath = args[++i];
+    } else if (arg === "--provider" || arg === "--model" || arg === "--base-url") {
+      const value = args[++i];
+      if (!value) {
+        throw new Error(`${arg} expects a value`);
+      }
+      if (arg === "--provider") modelOverrides.provider = value;
+      else if (arg === "--model") modelOverrides.model = value;
+      else modelOverrides.baseURL = value;
+    } else if (!arg.startsWith("-")) {
+      directory = arg;
+    }
+  }
+
+  if (!mcp) {
+    throw new Error("Usage: cliffnotes serve --mcp [directory] (MCP over stdio is the only transport)");
+  }
+
+  const rootDir = resolve(directory);
+  const { config, workspaces, workspaceConfigs } = await loadConfig(rootDir, configPath);
+  config.model = buildModelConfig(config.model, modelOverrides);
+
+  // Only the refresh tool calls the model, so a missing key isn't fatal here
+  const apiKeyEnv = getApiKeyEnv(config.model);
+  const apiKey = apiKeyEnv ? loadApiKey(rootDir, apiKeyEnv) : undefined;
+  if (apiKeyEnv && apiKey) {
+    process.env[apiKeyEnv] = apiKey;
+  }
+
+  console.error(`${colors.dim}cliffnotes MCP server for ${rootDir}${colors.reset}`);
+  await serveMcp({
+    rootDir,
+    config,
+    categories: new Categories(config.categories),
+    workspaces,
+    settingsFor: workspaceAnalysisSettings(config, workspaces, workspaceConfigs, modelOverrides),
+    log: message => console.error(`${colors.dim}${message}${colors.reset}`),
+  });
+}
+
+/**
+ * `cliffnotes check [directory]` - fails when the committed notes don't
+ * match the sources. Reads only the manifests in the notes, so it needs
+ * neither the cache nor an API key.
+ */
+async function runCheck(args: string[]) {
+  let directory = ".";
+  let configPath: string | undefined;
+  let json = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--json") {
+      json = true;
+    } else if (arg === "--config") {
+      configPath = args[++i];
+    } else if (!arg.startsWith("-")) {
+      directory = arg;
+    }
+  }
+
+  const rootDir = resolve(directory);
+  const { config } = await loadConfig(rootDir, configPath);
+  const report = await checkNotes(rootDir, config);
+
+  if (json) {
+    console.log(JSON.stringify({ upToDate: report.stale.length === 0, ...report }, null, 2));
+  } else if (report.stale.length === 0) {
+    log(`${colors.green}✓ Notes are up to date${colors.reset} ${colors.dim}(${report.files} files in ${report.folders} folders)${colors.reset}`);
+  } else {
+    log(`${colors.red}✗ Notes are stale in ${report.stale.length} folder(s):${colors.reset}\n`);
+    for (const folder of report.stale) {
+      const note = folder.missing === "notes" ? " - no notes yet"
+        : folder.missing === "manifest" ? " - notes have no manifest (generated by an older version)"
+        : "";
+      log(`  ${colors.bright}${folder.notesFile}${colors.reset}${colors.dim}${note}${colors.reset}`);
+      for (const path of folder.added) log(`    ${colors.green}+ ${path}${colors.reset} ${colors.dim}new${colors.reset}`);
+      for (const path of folder.changed) log(`    ${colors.yellow}~ ${path}${colors.reset} ${colors.dim}changed${colors.reset}`);
+      for (const path of folder.deleted) log(`    ${colors.red}- ${path}${colors.reset} ${colors.dim}deleted${colors.reset}`);
+    }
+    log(`\n${colors.dim}Run cliffnotes to update them.${colors.reset}`);
+  }
+
+  if (report.stale.length > 0) process.exitCode = 1;
+}
+
+/**
+ * `cliffnotes bundle [directory]` - the whole project's notes as one
+ * document within a token budget, for pasting into a chat. Uses the cache
+ * and committed notes only, so it makes no API calls.
+ */
+async function runBundle(args: string[]) {
+  let directory = ".";
+  let configPath: string | undefined;
+  let outputPath: string | undefined;
+  let maxTokens = 50_000;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--max-tokens") {
+      maxTokens = parseInt(args[++i], 10);
+      if (!Number.isInteger(maxTokens) || maxTokens < 1) {
+        throw new Error(`${arg} expects a positive integer`);
+      }
+    } else if (arg === "--output" || arg === "-o") {
+      outputPath = args[++i];
+      if (!outputPath) {
+        throw new Error(`${arg} expects a file path`);
+      }
+    } else if (arg === "--config") {
+      configPath = args[++i];
+    } else if (!arg.startsWith("-")) {
+      directory = arg;
+    }
+  }
+
+  const rootDir = resolve(directory);
+  const { config } = await loadConfig(rootDir, configPath);
+  const notes = await loadExistingNotes(rootDir, config);
+  if (notes.analyses.length === 0) {
+    throw new Error(`No notes found in ${rootDir}. Run cliffnotes there first.`);
+  }
+
+  const { content, report } = await buildBundle(notes.analyses, {
+    maxTokens,
+    projectName: await readProjectName(rootDir),
+    categories: new Categories(config.categories),
+    rollups: notes.rollups,
+    architecture: notes.architecture,
+    outputFile: config.outputFile,
+  });
+
+  if (outputPath) {
+    await writeFile(resolve(outputPath), content);
+  } else {
+    process.stdout.write(content);
+  }
+
+  // The report goes to stderr so the bundle can be piped
+  const status = report.fits
+    ? `${colors.green}✓ ${report.tokens.toLocaleString()} of ${maxTokens.toLocaleString()} tokens${colors.reset}`
+    : `${colors.red}✗ ${report.tokens.toLocaleString()} tokens, over the ${maxTokens.toLocaleString()} budget even fully condensed${colors.reset}`;
+  console.error(`\n${status}${outputPath ? ` ${colors.dim}→ ${outputPath}${colors.reset}` : ""}`);
+  console.error(`${colors.dim}  ${report.full} files in full, ${report.brief} brief, ${report.oneLine} one-line${colors.reset}`);
+  for (const folder of report.collapsedFolders) {
+    console.error(`${colors.dim}  Collapsed ${folder.path}/ (${folder.files} file${folder.files === 1 ? "" : "s"})${colors.reset}`);
+  }
+  if (report.architectureDropped) {
+    console.error(`${colors.dim}  Dropped the architecture overview${colors.reset}`);
+  }
+  if (notes.missing.length > 0) {
+    console.error(`${colors.yellow}  ${notes.missing.length} file(s) have no notes yet; run cliffnotes to include them${colors.reset}`);
+  }
+
+  if (!report.fits) process.exitCode = 1;
+}
+
+/**
+ * `cliffnotes cache <stats|gc|export|import> [directory]` - cache
+ * maintenance. Makes no API calls.
+ */
+async function runCache(args: string[]) {
+  const usage = "Usage: cliffnotes cache stats|gc [directory] [--json], cache export [directory] [-o <file>], cache import <file> [directory]";
+  const [action, ...rest] = args;
+  let directory = ".";
+  let configPath: string | undefined;
+  let outputPath: string | undefined;
+  let json = false;
+  const positional: string[] = [];
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg === "--json") {
+      json = true;
+    } else if (arg === "--output" || arg === "-o") {
+      outputPath = rest[++i];
+      if (!outputPath) {
+        throw new Error(`${arg} expects a file path`);
+      }
+    } else if (arg === "--config") {
+      configPath = rest[++i];
+    } else if (!arg.startsWith("-")) {
+      positional.push(arg);
+    }
+  }
+
+  // import takes the file first, then the directory
+  const importPath = action === "import" ? positional.shift() : undefined;
+  if (positional.length > 0) directory = positional[0];
+
+  const rootDir = resolve(directory);
+  const { config } = await loadConfig(rootDir, configPath);
+  const cachePath = resolve(rootDir, config.cacheFile);
+  const cache = await loadCache(cachePath);
+
+  if (action === "stats") {
+    const stats = cacheStats(cache);
+    const bytes = existsSync(cachePath) ? statSync(cachePath).size : 0;
+    if (json) {
+      console.log(JSON.stringify({ cacheFile: config.cacheFile, bytes, ...stats }, null, 2));
+      return;
+    }
+    log(`${colors.bright}${config.cacheFile}${colors.reset} ${colors.dim}(${formatBytes(bytes)})${colors.reset}`);
+    log(`  ${colors.cyan}Files:${colors.reset}         ${stats.files}`);
+    log(`  ${colors.cyan}Entries:${colors.reset}       ${stats.entries} ${colors.dim}(${stats.shared} shared by identical files, ${stats.unreferenced} unreferenced, ${stats.legacy} without a fingerprint)${colors.reset}`);
+    log(`  ${colors.cyan}Chunks:${colors.reset}        ${stats.chunks}`);
+    log(`  ${colors.cyan}Rollups:${colors.reset}       ${stats.rollups}${stats.architecture ? " + architecture" : ""}`);
+    log(`  ${colors.cyan}Models:${colors.reset}        ${Object.entries(stats.models).map(([id, count]) => `${id} (${count})`).join(", ") || "-"}`);
+    log(`  ${colors.cyan}Tokens spent:${colors.reset}  ${stats.tokens.input.toLocaleString()} in / ${stats.tokens.output.toLocaleString()} out`);
+    if (stats.unreferenced > 0) {
+      log(`\n${colors.dim}Run cliffnotes cache gc to drop the unreferenced entries.${colors.reset}`);
+    }
+  } else if (action === "gc") {
+    const before = existsSync(cachePath) ? statSync(cachePath).size : 0;
+    const files = await discoverFiles(rootDir, config);
+    const paths = pruneCache(cache, files.map(f => f.relative));
+    const removed = collectGarbage(cache);
+    await saveCache(cachePath, cache);
+    const after = statSync(cachePath).size;
+    if (json) {
+      console.log(JSON.stringify({ removed: { files: paths.length, ...removed }, bytes: { before, after } }, null, 2));
+      return;
+    }
+    log(`${colors.green}✓ Removed ${paths.length} deleted files, ${removed.entries} entries, ${removed.chunks} chunks and ${removed.rollups} rollups${colors.reset} ${colors.dim}(${formatBytes(before)} → ${formatBytes(after)})${colors.reset}`);
+  } else if (action === "export") {
+    const content = JSON.stringify(cache, null, 2);
+    if (outputPath) {
+      await writeFile(resolve(outputPath), content);
+      log(`${colors.green}✓ Exported ${Object.keys(cache.files).length} files and ${Object.keys(cache.entries).length} entries${colors.reset} ${colors.dim}→ ${outputPath}${colors.reset}`);
+    } else {
+      process.stdout.write(content + "\n");
+    }
+  } else if (action === "import") {
+    if (!importPath) {
+      throw new Error(usage);
+    }
+    const source = parseCache(JSON.parse(await readFile(resolve(importPath), "utf-8")));
+    if (!source) {
+      throw new Error(`${importPath} isn't a cliffnotes cache (or is from an unsupported version)`);
+    }
+    const added = mergeCache(cache, source);
+    await saveCache(cachePath, cache);
+    if (json) {
+      console.log(JSON.stringify({ added }, null, 2));
+      return;
+    }
+    log(`${colors.green}✓ Imported ${added.entries} entries, ${added.files} files and ${added.chunks} chunks${colors.reset} ${colors.dim}(existing entries kept)${colors.reset}`);
+  } else {
+    throw new Error(usage);
+  }
 }
 
 async function main() {
@@ -83,38 +674,104 @@ async function main() {
   // Parse args
   const args = process.argv.slice(2);
 
+  // Subcommands; anything else is a directory to analyze
+  if (args[0] === "search" && !args.includes("--help") && !args.includes("-h")) {
+    await runSearch(args.slice(1));
+    return;
+  }
+  if (args[0] === "find" && !args.includes("--help") && !args.includes("-h")) {
+    await runFind(args.slice(1));
+    return;
+  }
+  if (args[0] === "check" && !args.includes("--help") && !args.includes("-h")) {
+    await runCheck(args.slice(1));
+    return;
+  }
+  if (args[0] === "serve" && !args.includes("--help") && !args.includes("-h")) {
+    await runServe(args.slice(1));
+    return;
+  }
+  if (args[0] === "bundle" && !args.includes("--help") && !args.includes("-h")) {
+    await runBundle(args.slice(1));
+    return;
+  }
+  if (args[0] === "cache" && !args.includes("--help") && !args.includes("-h")) {
+    await runCache(args.slice(1));
+    return;
+  }
+
   // Check for help first (before API key check)
   if (args.includes("--help") || args.includes("-h")) {
     printHelp();
     process.exit(0);
   }
 
-  const rootDir = resolve(args.find(a => !a.startsWith("-")) || ".");
-
-  // Load API key from env or config files
-  const apiKey = loadApiKey(rootDir);
-  if (!apiKey) {
-    log(`${colors.red}Error: ANTHROPIC_API_KEY not found${colors.reset}`);
-    log(`
-Set it via:
-  1. Environment variable: export ANTHROPIC_API_KEY=your-key
-  2. .env file in your project directory
-  3. ~/.cliffnotes/.env
-  4. ~/.config/cliffnotes/.env`);
-    process.exit(1);
+  const cliOptions = parseArgs(args);
+  if (cliOptions.since && cliOptions.staged) {
+    throw new Error("--since and --staged can't be combined");
+  }
+  if (cliOptions.workspace && (cliOptions.since || cliOptions.staged || cliOptions.watch)) {
+    throw new Error("--workspace can't be combined with --since, --staged or --watch");
   }
+  const rootDir = resolve(cliOptions.directory);
 
-  // Set it in env for the analyzer to use
-  process.env.ANTHROPIC_API_KEY = apiKey;
+  // Load project config, then let CLI flags override it
+  const loaded = await loadConfig(rootDir, cliOptions.configPath);
+  const { config, source: configSource, workspaces, workspaceConfigs } = loaded;
 
-  // Parse CLI flags
-  const config: CliffnotesConfig = { ...DEFAULT_CONFIG };
+  const workspace = cliOptions.workspace ? findWorkspace(workspaces, cliOptions.workspace) : undefined;
+  if (cliOptions.workspace && !workspace) {
+    throw new Error(workspaces.length === 0
+      ? `--workspace: no workspaces found in ${rootDir}`
+      : `--workspace: no workspace "${cliOptions.workspace}". Workspaces: ${workspaces.map(w => w.name).join(", ")}`);
+  }
+  const workspaceConfig = workspace ? workspaceConfigs.get(workspace.path) : undefined;
 
-  for (let i = 0; i < args.length; i++) {
-    if (args[i] === "--concurrency" || args[i] === "-c") {
-      config.concurrency = parseInt(args[++i], 10);
-    }
+  if (cliOptions.concurrency !== undefined) {
+    config.concurrency = cliOptions.concurrency;
+  }
+  if (cliOptions.retries !== undefined) {
+    config.maxRetries = cliOptions.retries;
+  }
+  if (cliOptions.chunkTokens !== undefined) {
+    config.chunkTokens = cliOptions.chunkTokens;
+  }
+  if (cliOptions.notesTokens !== undefined) {
+    config.notesTokens = cliOptions.notesTokens;
+  }
+  if (cliOptions.rollups !== undefined) {
+    config.rollups = cliOptions.rollups;
+  }
+  if (cliOptions.index !== undefined) {
+    config.index = cliOptions.index;
+  }
+  if (cliOptions.changelog !== undefined) {
+    config.changelog = cliOptions.changelog;
   }
+  if (cliOptions.targets !== undefined) {
+    config.targets = cliOptions.targets;
+  }
+  if (cliOptions.architecture !== undefined) {
+    config.architecture = cliOptions.architecture;
+  }
+  if (cliOptions.graph !== undefined) {
+    config.graph = cliOptions.graph;
+  }
+  config.model = buildModelConfig(config.model, {
+    provider: cliOptions.provider,
+    model: cliOptions.model,
+    baseURL: cliOptions.baseURL,
+  });
+
+  requireApiKey(rootDir, config.model);
+
+  // Packages with their own model, categories or chunkTokens keep them in every run
+  const settingsFor = workspaceAnalysisSettings(config, workspaces, workspaceConfigs, {
+    provider: cliOptions.provider,
+    model: cliOptions.model,
+    baseURL: cliOptions.baseURL,
+    chunkTokens: cliOptions.chunkTokens,
+  });
 
   log(`
 ${colors.bright}📚 Cliffnotes Generator${colors.reset}
@@ -122,7 +779,15 @@ ${colors.dim}Generating AI-friendly codebase summary...${colors.reset}
 `);
 
   log(`${colors.cyan}📁 Scanning:${colors.reset} ${rootDir}`);
+  log(`${colors.cyan}🤖 Model:${colors.reset} ${getModelId(config.model)}${config.model.baseURL ? ` (${config.model.baseURL})` : ""}`);
   log(`${colors.cyan}⚡ Concurrency:${colors.reset} ${config.concurrency}`);
+  if (configSource) {
+    log(`${colors.cyan}⚙️  Config:${colors.reset} ${configSource}`);
+  }
+  if (workspaces.length > 0) {
+    const ownConfigs = workspaceConfigs.size > 0 ? `, ${workspaceConfigs.size} with their own config` : "";
+    log(`${colors.cyan}📦 Workspaces:${colors.reset} ${workspaces.length}${ownConfigs}`);
+  }
 
   // Discover files
   const files = await discoverFiles(rootDir, config);
@@ -136,96 +801,463 @@ ${colors.dim}Generating AI-friendly codebase summary...${colors.reset}
   // Load cache
   const cachePath = resolve(rootDir, config.cacheFile);
   const cache = await loadCache(cachePath);
-  const cachedCount = Object.keys(cache.entries).length;
+  const cachedCount = Object.keys(cache.files).length;
   log(`${colors.cyan}💾 Cached entries:${colors.reset} ${cachedCount}`);
 
+  // With --workspace, only that package's files are analyzed; the rest keep their notes
+  const scoped = workspace
+    ? await scopeToWorkspace(rootDir, config, cache, files, workspace)
+    : cliOptions.since || cliOptions.staged
+      ? await scopeToGitChanges(rootDir, config, cache, files, { since: cliOptions.since, staged: cliOptions.staged })
+      : undefined;
+  if (scoped && workspace) {
+    const seeded = scoped.seeded > 0 ? `, ${scoped.seeded} notes taken from ${scoped.seededFrom}` : "";
+    log(`${colors.cyan}🎯 Scope:${colors.reset} workspace ${workspace.name} (${workspace.path}/), ${scoped.toAnalyze.length} files${workspaceConfig ? `, config ${workspaceConfig.source}` : ""}${seeded}`);
+  } else if (scoped) {
+    const seeded = scoped.seeded > 0 ? `, ${scoped.seeded} notes taken from ${scoped.seededFrom}` : "";
+    const renamed = scoped.renamed > 0 ? `, ${scoped.renamed} renames carried over` : "";
+    log(`${colors.cyan}🎯 Scope:${colors.reset} ${scoped.changed} changed since ${cliOptions.staged ? "the last commit (staged)" : cliOptions.since}, ${scoped.toAnalyze.length} to analyze${renamed}${seeded}`);
+  }
+
+  // What the notes said before this run, for the changelog
+  const notesBefore = config.changelog ? snapshotNotes(cache) : undefined;
+
   // Prune cache entries for deleted files
   const currentFilePaths = files.map(f => f.relative);
   const removedFromCache = pruneCache(cache, currentFilePaths);
   if (removedFromCache.length > 0) {
-    log(`${colors.yellow}🗑️  Removed ${removedFromCache.length} stale cache entries${colors.reset}`);
+    log(`${colors.yellow}🗑️  Removed ${removedFromCache.length} deleted files from the cache${colors.reset}`);
   }
 
   log(`\n${colors.bright}Analyzing files...${colors.reset}\n`);
 
+  const categories = new Categories(config.categories);
+
+  // Checkpoint the cache as analyses land so an interrupted run loses nothing
+  const checkpointer = new CacheCheckpointer(cachePath, cache);
+  const interrupt = handleInterrupts();
+
   // Analyze files
-  const { analyses, cached, analyzed } = await analyzeFiles(
-    files,
-    cache,
-    config.concurrency,
-    logProgress
-  );
+  const analysis = await analyzeFiles(scoped?.toAnalyze ?? files, cache, {
+    concurrency: config.concurrency,
+    categories,
+    model: config.model,
+    maxRetries: config.maxRetries,
+    chunkTokens: config.chunkTokens,
+    settingsFor,
+    signal: interrupt.signal,
+    onProgress: (file, status, current, total) => {
+      if (status === "analyzed") checkpointer.schedule();
+      logProgress(file, status, current, total);
+    },
+    onChunk: () => checkpointer.schedule(),
+  });
 
   // Clear progress line
   process.stdout.write("\r" + " ".repeat(100) + "\r");
 
-  // Calculate cost
-  const cost = calculateCost(analyses);
+  const { analyzed, failures, interrupted, retries, finalConcurrency } = analysis;
+  const analyses = [...analysis.analyses, ...(scoped?.trusted ?? [])]
+    .sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+  const cached = analysis.cached + (scoped?.trusted.length ?? 0);
+
+  await checkpointer.flush();
+
+  if (interrupt.signal.aborted) {
+    log(`${colors.yellow}⏸  Interrupted:${colors.reset} ${analyzed} analyzed, ${cached} cached, ${interrupted} not started`);
+    log(`${colors.dim}Progress saved to ${config.cacheFile}. Re-run to pick up where this left off.${colors.reset}`);
+
+    if (!cliOptions.writePartial) {
+      process.exit(130);
+    }
+    log(`${colors.dim}Writing notes for finished files (--write-partial)...${colors.reset}`);
+  }
 
   // Build folder tree
   log(`\n${colors.bright}Building folder hierarchy...${colors.reset}`);
   const tree = buildFolderTree(analyses);
   const foldersWithContent = getFoldersWithContent(tree);
 
+  // Static import graph - parsed locally, costs no tokens
+  const graph = config.graph ? await buildImportGraph(rootDir, files) : undefined;
+
+  // Summarize folders bottom-up so parents can describe their subfolders
+  let rollupResult: RollupResult | undefined;
+  if (config.rollups && !interrupt.signal.aborted) {
+    log(`${colors.bright}Summarizing folders...${colors.reset}\n`);
+    rollupResult = await generateFolderRollups(foldersWithContent, cache, {
+      model: config.model,
+      concurrency: config.concurrency,
+      maxRetries: config.maxRetries,
+      signal: interrupt.signal,
+      only: scoped?.affected,
+      onProgress: (folder, status, current, total) => {
+        if (status === "analyzed") checkpointer.schedule();
+        logProgress(folder, status, current, total);
+      },
+    });
+    process.stdout.write("\r" + " ".repeat(100) + "\r");
+    await checkpointer.flush();
+
+    if (interrupt.signal.aborted && !cliOptions.writePartial) {
+      log(`${colors.yellow}⏸  Interrupted while summarizing folders.${colors.reset} ${colors.dim}Progress saved.${colors.reset}`);
+      process.exit(130);
+    }
+  }
+
+  const rollups = rollupResult?.rollups ?? new Map<string, RollupEntry>();
+
+  // Synthesize the project-wide architecture section for the root
+  let architecture: ArchitectureEntry | undefined;
+  let architectureFromCache = false;
+  if (config.architecture && !interrupt.signal.aborted) {
+    log(`${colors.bright}Synthesizing architecture overview...${colors.reset}`);
+    try {
+      const result = await generateArchitectureOverview(foldersWithContent, rollups, cache, {
+        model: config.model,
+        maxRetries: config.maxRetries,
+        signal: interrupt.signal,
+      });
+      architecture = result.entry;
+      architectureFromCache = result.fromCache;
+      await checkpointer.flush();
+    } catch (err) {
+      if (!interrupt.signal.aborted) {
+        log(`${colors.yellow}⚠ Architecture overview failed and was left out: ${(err as Error).message}${colors.reset}`);
+      }
+    }
+  }
+  interrupt.dispose();
+
+  // Calculate cost
+  const cost = calculateCost(
+    [...analyses, ...rollups.values(), ...(architecture ? [architecture] : [])],
+    config.model.pricing ? { [getModelId(config.model)]: config.model.pricing } : undefined
+  );
+
   // Generate hierarchical CLIFFNOTES.md files
   log(`${colors.bright}Generating CLIFFNOTES.md files...${colors.reset}`);
-  const foldersWritten = await writeAllCliffnotes(rootDir, foldersWithContent, cost, { cached, analyzed });
+  const foldersWritten = await writeAllCliffnotes(
+    rootDir,
+    foldersWithContent,
+    cost,
+    { cached, analyzed },
+    {
+      outputFile: config.outputFile,
+      rollups,
+      architecture: architecture?.content,
+      graph,
+      categories,
+      workspaces,
+      maxTokens: config.notesTokens,
+    },
+    scoped?.affected
+  );
 
-  // Generate the context-finder agent
-  log(`${colors.bright}Generating context-finder agent...${colors.reset}`);
-  await writeContextFinderAgent(rootDir);
+  // A scoped run can empty a folder; its notes go with it
+  if (scoped) {
+    const remaining = new Set(foldersWithContent.map(f => f.path));
+    await removeCliffnotes(rootDir, [...scoped.affected].filter(path => !remaining.has(path)), config.outputFile);
+  }
+
+  if (graph) {
+    await writeImportGraph(rootDir, graph);
+  }
+
+  let indexFile: string | undefined;
+  if (config.index) {
+    const index = buildNotesIndex({
+      folders: foldersWithContent,
+      cost,
+      stats: { cached, analyzed, failed: failures.length },
+      outputFile: config.outputFile,
+      rollups,
+      architecture: architecture?.content,
+    });
+    indexFile = await writeNotesIndex(rootDir, index, config.index);
+  }
+
+  let changelog: NotesChangelog | undefined;
+  if (notesBefore) {
+    changelog = buildChangelog(notesBefore, analyses, currentFilePaths);
+    await writeChangelog(rootDir, changelog);
+  }
+
+  // Assistant-specific files: the context-finder agent, AGENTS.md, Cursor rules, ...
+  let targetFiles: string[] = [];
+  if (config.targets.length > 0) {
+    log(`${colors.bright}Generating assistant files (${config.targets.join(", ")})...${colors.reset}`);
+    targetFiles = await writeTargets(config.targets, {
+      rootDir,
+      folders: foldersWithContent,
+      notes: { outputFile: config.outputFile, rollups, architecture: architecture?.content, graph, categories, workspaces },
+    });
+  }
+
+  // A full run has seen every file, so entries none of them use can go;
+  // scoped runs leave those to the next full run or `cache gc`. After a
+  // failure, the finished chunks of a large file are kept for the retry.
+  if (!scoped && !interrupt.signal.aborted && failures.length === 0) {
+    collectGarbage(cache);
+  }
 
   // Save cache
   await saveCache(cachePath, cache);
 
+  if (interrupt.signal.aborted) {
+    process.exit(130);
+  }
+
   const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
 
   // Print summary
   log(`
-${colors.green}✓ Done!${colors.reset} Generated ${colors.bright}${foldersWritten} CLIFFNOTES.md${colors.reset} files
+${colors.green}✓ Done!${colors.reset} Generated ${colors.bright}${foldersWritten} ${config.outputFile}${colors.reset} files
 
 ${colors.bright}Summary:${colors.reset}
   ${colors.cyan}Files analyzed:${colors.reset} ${analyzed} (${cached} from cache)
-  ${colors.cyan}Folders with notes:${colors.reset} ${foldersWritten}
+  ${colors.cyan}Folders with notes:${colors.reset} ${foldersWritten}${rollupResult ? ` (${rollupResult.generated} summarized, ${rollupResult.cached} cached)` : ""}
+  ${colors.cyan}Architecture:${colors.reset}  ${architecture ? (architectureFromCache ? "cached" : "regenerated") : "skipped"}
   ${colors.cyan}Input tokens:${colors.reset}  ${cost.inputTokens.toLocaleString()}
   ${colors.cyan}Output tokens:${colors.reset} ${cost.outputTokens.toLocaleString()}
-  ${colors.cyan}Estimated cost:${colors.reset} ${colors.yellow}$${cost.estimatedCost.toFixed(4)}${colors.reset}
-  ${colors.cyan}Time elapsed:${colors.reset}  ${elapsed}s
+  ${colors.cyan}Estimated cost:${colors.reset} ${colors.yellow}$${cost.estimatedCost.toFixed(4)}${colors.reset}${formatUnpricedModels(cost.byModel)}
+  ${colors.cyan}Time elapsed:${colors.reset}  ${elapsed}s${formatRetries(retries, config.concurrency, finalConcurrency)}
 
 ${colors.bright}Generated files:${colors.reset}
-  ${colors.cyan}Root:${colors.reset}  CLIFFNOTES.md
-  ${colors.cyan}Agent:${colors.reset} .claude/agents/context-finder.md
+  ${colors.cyan}Root:${colors.reset}  ${config.outputFile}${targetFiles.length > 0 ? `\n  ${colors.cyan}Assistants:${colors.reset} ${formatTargetFiles(targetFiles)}` : ""}${graph ? `\n  ${colors.cyan}Graph:${colors.reset} ${GRAPH_FILE}` : ""}${indexFile ? `\n  ${colors.cyan}Index:${colors.reset} ${indexFile}` : ""}${changelog ? `\n  ${colors.cyan}Changes:${colors.reset} ${CHANGELOG_FILE} ${colors.dim}(${formatChangelog(changelog)})${colors.reset}` : ""}
   ${colors.cyan}Cache:${colors.reset} ${config.cacheFile}
 
-${colors.dim}Each subfolder also has its own CLIFFNOTES.md${colors.reset}
+${colors.dim}Each subfolder also has its own ${config.outputFile}${colors.reset}
 `);
+
+  if (failures.length > 0) {
+    logFailures(failures);
+    process.exitCode = 1;
+  }
+
+  // Folder summaries are a nice-to-have: report them, but don't fail the run
+  if (rollupResult && rollupResult.failures.length > 0) {
+    log(`${colors.yellow}⚠ ${rollupResult.failures.length} folder summary(ies) failed and were left out:${colors.reset}`);
+    for (const failure of rollupResult.failures) {
+      log(`  ${colors.yellow}•${colors.reset} ${failure.relativePath}/ - ${failure.error}`);
+    }
+  }
+
+  if (cliOptions.watch) {
+    log(`${colors.bright}👀 Watching for changes...${colors.reset} ${colors.dim}(Ctrl+C to stop)${colors.reset}\n`);
+    const stop = handleInterrupts();
+    await watchProject({
+      rootDir,
+      config,
+      categories,
+      cache,
+      cachePath,
+      analyses,
+      graph,
+      workspaces,
+      settingsFor,
+      signal: stop.signal,
+      onChange: paths => log(`${colors.dim}${timestamp()} Changed: ${paths.slice(0, 3).join(", ")}${paths.length > 3 ? ` and ${paths.length - 3} more` : ""}${colors.reset}`),
+      onUpdate: logWatchUpdate,
+      onError: err => log(`${colors.red}${timestamp()} Update failed: ${err.message}${colors.reset}`),
+    });
+    stop.dispose();
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Written target files, with a folder of many (Cursor rules) shown as one entry
+ */
+function formatTargetFiles(paths: string[]): string {
+  const byDir = new Map<string, string[]>();
+  for (const path of paths) {
+    const dir = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : ".";
+    byDir.set(dir, [...(byDir.get(dir) ?? []), path]);
+  }
+  return [...byDir.entries()]
+    .flatMap(([dir, files]) => files.length > 3 ? [`${dir}/ (${files.length} files)`] : files)
+    .join(", ");
+}
+
+/**
+ * One line per watch batch, plus any files that failed
+ */
+function logWatchUpdate(update: WatchUpdate) {
+  const parts = [
+    update.analyzed.length > 0 ? `${update.analyzed.length} re-analyzed` : "",
+    update.removed.length > 0 ? `${update.removed.length} removed` : "",
+    `${update.foldersWritten.length} notes rewritten`,
+    update.foldersRemoved.length > 0 ? `${update.foldersRemoved.length} notes deleted` : "",
+  ].filter(Boolean);
+  log(`${colors.green}✓${colors.reset} ${timestamp()} ${parts.join(", ")}`);
+  for (const failure of update.failures) {
+    log(`  ${colors.red}•${colors.reset} ${failure.relativePath} - ${failure.error}`);
+  }
+}
+
+function timestamp(): string {
+  return new Date().toLocaleTimeString();
+}
+
+/**
+ * First Ctrl+C (or SIGTERM/SIGHUP) stops scheduling new files and lets
+ * in-flight calls finish; a second one quits immediately.
+ */
+function handleInterrupts(): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const signals: NodeJS.Signals[] = ["SIGINT", "SIGTERM", "SIGHUP"];
+
+  const onSignal = () => {
+    if (controller.signal.aborted) {
+      log(`\n${colors.red}Force quitting - in-flight results are lost${colors.reset}`);
+      process.exit(130);
+    }
+    process.stdout.write("\r" + " ".repeat(100) + "\r");
+    log(`${colors.yellow}Stopping... waiting for in-flight calls (Ctrl+C again to force quit)${colors.reset}`);
+    controller.abort();
+  };
+
+  for (const sig of signals) process.on(sig, onSignal);
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      for (const sig of signals) process.off(sig, onSignal);
+    },
+  };
+}
+
+function formatRetries(retries: number, initialConcurrency: number, finalConcurrency: number): string {
+  if (retries === 0) return "";
+  const lowered = finalConcurrency < initialConcurrency
+    ? `, concurrency lowered to ${finalConcurrency}`
+    : "";
+  return `\n  ${colors.cyan}Retries:${colors.reset}       ${retries}${lowered}`;
+}
+
+/**
+ * Lists files that could not be analyzed. They're left out of the notes and
+ * the cache, so the next run picks them up again.
+ */
+function logFailures(failures: AnalysisFailure[]) {
+  log(`${colors.red}✗ ${failures.length} file(s) failed to analyze:${colors.reset}`);
+  for (const failure of failures) {
+    const attempts = failure.attempts === 1 ? "1 attempt" : `${failure.attempts} attempts`;
+    log(`  ${colors.red}•${colors.reset} ${failure.relativePath} ${colors.dim}(${attempts})${colors.reset} - ${failure.error}`);
+  }
+  log(`\n${colors.dim}Re-run to retry the failed files; everything else is cached.${colors.reset}\n`);
+}
+
+function formatChangelog(changelog: NotesChangelog): string {
+  if (!hasChanges(changelog)) return "no changes";
+  return `${changelog.added.length} added, ${changelog.removed.length} removed, ${changelog.resummarized.length} re-summarized`;
+}
+
+/**
+ * Notes models whose cost couldn't be estimated so $0 isn't taken at face value
+ */
+function formatUnpricedModels(byModel: CostSummary["byModel"]): string {
+  const unpriced = Object.keys(byModel).filter(id => !byModel[id].priced);
+  if (unpriced.length === 0) return "";
+  return ` ${colors.dim}(no pricing for ${unpriced.join(", ")})${colors.reset}`;
 }
 
 function printHelp() {
   log(`
 ${colors.bright}📚 Cliffnotes Generator${colors.reset}
 
-Generate hierarchical AI-friendly codebase summaries using Claude Opus 4.5.
+Generate hierarchical AI-friendly codebase summaries using Claude (default: Opus 4.5),
+an OpenAI-compatible endpoint, or a local model server.
 
 ${colors.bright}Usage:${colors.reset}
   bunx cliffnotes [directory] [options]
+  bunx cliffnotes search "<query>" [directory] [--json] [--limit <n>]
+  bunx cliffnotes find "<task>" [directory] [--json] [--max-depth <n>] [--max-tokens <n>]
+  bunx cliffnotes serve --mcp [directory]
+  bunx cliffnotes check [directory] [--json]
+  bunx cliffnotes bundle [directory] [--max-tokens <n>] [-o <file>]
+  bunx cliffnotes cache stats|gc|export|import [directory]
+
+${colors.bright}Commands:${colors.reset}
+  search <query>         Rank files by their notes (offline, no API calls)
+  find <task>            Have the model walk the notes and list the files for a task
+                         (--max-depth default: 6, --max-tokens default: 50000)
+  serve --mcp            Serve the notes as MCP tools over stdio
+  check                  Exit non-zero if the notes are out of date (offline, for CI)
+  bundle                 All notes in one document within a token budget, printed or
+                         written with -o (offline, --max-tokens default: 50000)
+  cache stats            What the cache holds (--json for scripts)
+  cache gc               Drop entries and chunks no current file uses
+  cache export           Print the cache, or write it with -o <file>
+  cache import <file>    Merge an exported cache in; existing entries win
 
 ${colors.bright}Options:${colors.reset}
   -c, --concurrency <n>  Number of parallel AI calls (default: 5)
+  --retries <n>          Retries per file for rate limits/transient errors (default: 5)
+  --chunk-tokens <n>     Analyze files larger than this in chunks (default: 20000)
+  --notes-tokens <n>     Split a folder's CLIFFNOTES.md into category pages above
+                         this many tokens (default: 20000)
+  --no-rollups           Skip the AI summary of each folder (cheaper)
+  --no-architecture      Skip the project-wide architecture overview (cheaper)
+  --no-graph             Skip the static import graph
+  --index <format>       Write the machine-readable index as json or jsonl (default: json)
+  --no-index             Skip the machine-readable index
+  --no-changelog         Skip CLIFFNOTES-CHANGES.md and cliffnotes.changes.json
+  --targets <list>       Assistant files to write: claude, agents, cursor, copilot,
+                         llms, or all (default: claude)
+  --write-partial        On Ctrl+C, still write notes for the files that finished
+  -w, --watch            After the run, keep the notes current as files change
+  --since <ref>          Analyze only files changed since a git ref
+  --staged               Analyze only files staged for commit
+  --workspace <name>     In a monorepo, analyze only this package (name or folder)
+  --config <path>        Use this config file instead of discovering one
+  --provider <name>      anthropic, openai, openai-compatible, ollama, llamacpp
+  --model <id>           Model ID for the provider (e.g. claude-sonnet-4-5)
+  --base-url <url>       Override the provider endpoint (e.g. a self-hosted server)
   -h, --help             Show this help message
 
 ${colors.bright}Environment:${colors.reset}
-  ANTHROPIC_API_KEY      Required. Your Anthropic API key.
+  ANTHROPIC_API_KEY      Required for the anthropic provider.
+  OPENAI_API_KEY         Required for the openai provider.
 
 ${colors.bright}Examples:${colors.reset}
   bunx cliffnotes                    # Analyze current directory
   bunx cliffnotes ./my-project       # Analyze specific directory
   bunx cliffnotes -c 10              # Use 10 parallel calls
+  bunx cliffnotes --watch            # Keep notes fresh during a session
+  bunx cliffnotes --since origin/main
+                                     # Refresh notes for a PR's changes
+  bunx cliffnotes --workspace @acme/api
+                                     # Refresh one package of a monorepo
+  bunx cliffnotes search "password reset"
+                                     # Which file handles this?
+  bunx cliffnotes find "add rate limiting to the login endpoint"
+                                     # What should I read before this change?
+  bunx cliffnotes bundle --max-tokens 20000 -o context.md
+                                     # The whole codebase for a chat window
+  bunx cliffnotes --provider ollama --model qwen2.5-coder
+                                     # Keep code on this machine
+
+${colors.bright}Config:${colors.reset}
+  Read from the first of cliffnotes.config.{ts,js,mjs,json} or the
+  "cliffnotes" key in package.json. CLI flags override config values.
+  In a monorepo, a package's own config selects the files in its folder,
+  and its other settings apply when it's run with --workspace.
 
 ${colors.bright}Generated Files:${colors.reset}
   CLIFFNOTES.md                     Root summary (commit this!)
   <folder>/CLIFFNOTES.md            Per-folder context files
   .claude/agents/context-finder.md  AI agent for navigation
+  AGENTS.md, .cursor/rules/, ...    Other assistants' files (--targets)
+  cliffnotes.graph.json             Static import graph
+  cliffnotes.index.json             Machine-readable notes for tools
+  CLIFFNOTES-CHANGES.md             What changed in the notes this run
   .cliffnotes-cache.json            Hash cache (gitignore this)
 
 ${colors.bright}How it works:${colors.reset}
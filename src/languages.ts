@@ -0,0 +1,48 @@
+import { extname } from "path";
+import type { Language } from "./types.js";
+
+const EXTENSION_LANGUAGES: Record<string, Language> = {
+  ".ts": "typescript",
+  ".tsx": "typescript",
+  ".mts": "typescript",
+  ".cts": "typescript",
+  ".js": "javascript",
+  ".jsx": "javascript",
+  ".mjs": "javascript",
+  ".cjs": "javascript",
+  ".py": "python",
+  ".pyi": "python",
+  ".go": "go",
+  ".rs": "rust",
+  ".sql": "sql",
+  ".prisma": "prisma",
+  ".graphql": "graphql",
+  ".graphqls": "graphql",
+  ".gql": "graphql",
+};
+
+// Spec files are plain YAML/JSON; only the top-level key tells them apart
+const SPEC_EXTENSIONS = new Set([".yaml", ".yml", ".json"]);
+const OPENAPI_KEY = /(^|[{,])\s*["']?(openapi|swagger)["']?\s*:/m;
+
+/**
+ * Detects the language of a file from its extension, and for YAML/JSON
+ * whether it is an OpenAPI (or Swagger) spec.
+ */
+export function detectLanguage(filePath: string, content: string): Language {
+  const ext = extname(filePath).toLowerCase();
+
+  if (SPEC_EXTENSIONS.has(ext)) {
+    return OPENAPI_KEY.test(content.slice(0, 4000)) ? "openapi" : "other";
+  }
+
+  return EXTENSION_LANGUAGES[ext] ?? "other";
+}
+
+/**
+ * Whether the language is JavaScript or TypeScript, where the original
+ * React/Node conventions (hooks, components, tRPC) apply.
+ */
+export function isJavaScriptLike(language: Language): boolean {
+  return language === "typescript" || language === "javascript";
+}
@@ -0,0 +1,133 @@
+import { readFile } from "fs/promises";
+import { existsSync } from "fs";
+import { resolve } from "path";
+import { glob } from "glob";
+import { computeFileHash } from "./cache.js";
+import { discoverFiles } from "./discovery.js";
+import type { CliffnotesConfig, FolderInfo } from "./types.js";
+
+const MANIFEST_VERSION = 1;
+
+// An HTML comment at the end of each notes file: invisible when rendered, easy to find
+const MANIFEST_PATTERN = /\n*<!-- cliffnotes:manifest\n([\s\S]*?)\n-->\n?/;
+
+/**
+ * The source files a notes file was generated from, keyed by path from the
+ * project root, with their content hashes
+ */
+export interface NotesManifest {
+  version: number;
+  files: Record<string, string>;
+}
+
+export interface FolderCheck {
+  folder: string;
+  notesFile: string;
+  added: string[];      // Files with no entry in the notes
+  changed: string[];    // Files whose hash differs from the one they were summarized at
+  deleted: string[];    // Entries for files that no longer exist
+  missing?: "notes" | "manifest";   // No notes file, or one written before manifests
+}
+
+export interface CheckReport {
+  stale: FolderCheck[];
+  folders: number;
+  files: number;
+}
+
+/**
+ * Renders the manifest block for a folder's notes
+ */
+export function renderManifest(folder: FolderInfo): string {
+  const manifest: NotesManifest = {
+    version: MANIFEST_VERSION,
+    files: Object.fromEntries(folder.files.map(f => [f.relativePath, f.hash])),
+  };
+  return `<!-- cliffnotes:manifest\n${JSON.stringify(manifest, null, 1)}\n-->\n`;
+}
+
+export function parseManifest(notes: string): NotesManifest | undefined {
+  const match = notes.match(MANIFEST_PATTERN);
+  if (!match) return undefined;
+  try {
+    const manifest = JSON.parse(match[1]) as NotesManifest;
+    return manifest.version === MANIFEST_VERSION && manifest.files ? manifest : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Notes without the manifest, for handing to a model
+ */
+export function stripManifest(notes: string): string {
+  return notes.replace(MANIFEST_PATTERN, "\n");
+}
+
+/**
+ * Compares the files on disk with the manifests in the notes files. Reads
+ * only local files - no cache, no API.
+ */
+export async function checkNotes(rootDir: string, config: CliffnotesConfig): Promise<CheckReport> {
+  const files = await discoverFiles(rootDir, config);
+
+  // Every folder that has source files, or still has a notes file from before
+  const byFolder = new Map<string, { absolute: string; relative: string }[]>();
+  for (const file of files) {
+    const folder = folderOf(file.relative);
+    if (!byFolder.has(folder)) byFolder.set(folder, []);
+    byFolder.get(folder)!.push(file);
+  }
+  const notesFiles = await glob(`**/${config.outputFile}`, {
+    cwd: rootDir,
+    ignore: ["**/node_modules/**", "**/.git/**"],
+    dot: true,
+  });
+  for (const notesFile of notesFiles) {
+    const folder = folderOf(notesFile.replace(/\\/g, "/"));
+    if (!byFolder.has(folder)) byFolder.set(folder, []);
+  }
+
+  const stale: FolderCheck[] = [];
+  for (const folder of [...byFolder.keys()].sort()) {
+    const folderFiles = byFolder.get(folder)!;
+    const notesFile = folder === "." ? config.outputFile : `${folder}/${config.outputFile}`;
+    const notesPath = resolve(rootDir, notesFile);
+    const check: FolderCheck = { folder, notesFile, added: [], changed: [], deleted: [] };
+
+    const manifest = existsSync(notesPath) ? parseManifest(await readFile(notesPath, "utf-8")) : undefined;
+    if (!manifest) {
+      check.missing = existsSync(notesPath) ? "manifest" : "notes";
+      check.added = folderFiles.map(f => f.relative).sort();
+      // A folder with neither files nor a manifest is a leftover we can't judge
+      if (check.missing === "manifest" || check.added.length > 0) stale.push(check);
+      continue;
+    }
+
+    const present = new Set<string>();
+    for (const file of folderFiles) {
+      present.add(file.relative);
+      const recorded = manifest.files[file.relative];
+      if (recorded === undefined) {
+        check.added.push(file.relative);
+      } else if (recorded !== await computeFileHash(file.absolute)) {
+        check.changed.push(file.relative);
+      }
+    }
+    check.deleted = Object.keys(manifest.files).filter(path => !present.has(path));
+
+    if (check.added.length + check.changed.length + check.deleted.length > 0) {
+      check.added.sort();
+      check.changed.sort();
+      check.deleted.sort();
+      stale.push(check);
+    }
+  }
+
+  return { stale, folders: byFolder.size, files: files.length };
+}
+
+function folderOf(relativePath: string): string {
+  const slash = relativePath.lastIndexOf("/");
+  return slash === -1 ? "." : relativePath.slice(0, slash);
+}
@@ -0,0 +1,376 @@
+import { createInterface } from "readline";
+import { resolve } from "path";
+import { zodSchema } from "ai";
+import { z } from "zod";
+import { analysisFromCache, analyzeFiles, type AnalyzeFilesOptions } from "./analyzer.js";
+import {
+  CacheCheckpointer,
+  cachedFiles,
+  collectGarbage,
+  deleteCacheEntry,
+  getCacheEntry,
+  loadCache,
+  saveCache,
+} from "./cache.js";
+import { buildFolderTree, discoverFiles, getFoldersWithContent } from "./discovery.js";
+import { stripManifest } from "./manifest.js";
+import { generateFolderCliffnotes, renderFileNotes } from "./output.js";
+import { searchNotes } from "./search.js";
+import type { Categories } from "./categories.js";
+import type { CacheData, CliffnotesConfig, FileAnalysis, FolderInfo, FolderRollup, Workspace } from "./types.js";
+
+// Protocol versions we understand, newest first; we answer with the client's if it's one of these
+const PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+
+export interface McpServerOptions {
+  rootDir: string;
+  config: CliffnotesConfig;
+  categories: Categories;
+  workspaces?: Workspace[];          // Adds the package header to a workspace's notes
+  settingsFor?: AnalyzeFilesOptions["settingsFor"];
+  log?: (message: string) => void;   // Must not write to stdout - that's the protocol channel
+}
+
+interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+interface ToolResult {
+  content: { type: "text"; text: string }[];
+  isError?: boolean;
+}
+
+interface Tool<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  schema: S;
+  run(args: z.infer<S>): Promise<string>;
+}
+
+/**
+ * Types a tool's `run` by its own schema before it joins the list
+ */
+function defineTool<S extends z.ZodTypeAny>(tool: Tool<S>): Tool {
+  return tool;
+}
+
+/**
+ * Serves the notes over the Model Context Protocol on stdio: one JSON-RPC
+ * message per line in each direction. Resolves when stdin closes or on
+ * SIGINT/SIGTERM, after a running refresh has saved what it finished.
+ */
+export async function serveMcp(options: McpServerOptions): Promise<void> {
+  // Stops a running refresh: no new calls start, in-flight ones finish and are saved
+  const shutdown = new AbortController();
+  const server = new NotesServer(options, shutdown.signal);
+  await server.load();
+
+  const lines = createInterface({ input: process.stdin, terminal: false });
+  const pending = new Set<Promise<void>>();
+
+  const signals: NodeJS.Signals[] = ["SIGINT", "SIGTERM"];
+  const onSignal = () => {
+    if (shutdown.signal.aborted) process.exit(130);
+    options.log?.("Stopping... waiting for in-flight calls (again to force quit)");
+    shutdown.abort();
+    lines.close();
+  };
+  for (const sig of signals) process.on(sig, onSignal);
+
+  try {
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      // Handle requests concurrently so a slow refresh doesn't block reads
+      const handled = server.handleLine(line).then(response => {
+        if (response) process.stdout.write(JSON.stringify(response) + "\n");
+      });
+      pending.add(handled);
+      handled.finally(() => pending.delete(handled));
+    }
+
+    // Nobody is left to read a refresh's result
+    shutdown.abort();
+    await Promise.all(pending);
+  } finally {
+    for (const sig of signals) process.off(sig, onSignal);
+  }
+}
+
+/**
+ * The notes as built from the cache, plus the tools that read and refresh them
+ */
+class NotesServer {
+  private cache!: CacheData;
+  private folders = new Map<string, FolderInfo>();
+  private rollups = new Map<string, FolderRollup>();
+  private refreshing: Promise<unknown> = Promise.resolve();
+  private readonly tools: Tool[];
+
+  constructor(private readonly options: McpServerOptions, private readonly signal?: AbortSignal) {
+    const path = z.string().default(".").describe("Folder path from the project root; \".\" for the root");
+
+    this.tools = [
+      defineTool({
+        name: "get_folder_notes",
+        description: `The ${options.config.outputFile} for a folder: what it is responsible for, its subfolders, and notes on every file in it. Start at "." and descend.`,
+        schema: z.object({ path }),
+        run: async ({ path }) => this.folderNotes(path),
+      }),
+      defineTool({
+        name: "get_file_summary",
+        description: "Notes for one source file: purpose, exports with signatures, endpoints, props, env vars and search terms.",
+        schema: z.object({ path: z.string().describe("File path from the project root") }),
+        run: async ({ path }) => this.fileSummary(path),
+      }),
+      defineTool({
+        name: "list_subfolders",
+        description: "The subfolders of a folder as JSON, each with its description and how many files it contains.",
+        schema: z.object({ path }),
+        run: async ({ path }) => JSON.stringify(this.subfolders(path), null, 2),
+      }),
+      defineTool({
+        name: "search_notes",
+        description: "Ranks files by how well their notes match a query (BM25 over summaries, search terms and paths). Returns JSON.",
+        schema: z.object({
+          query: z.string().min(1),
+          limit: z.number().int().min(1).max(100).default(10),
+        }),
+        run: async ({ query, limit }) => JSON.stringify(searchNotes(this.documents(), query, limit), null, 2),
+      }),
+      defineTool({
+        name: "refresh",
+        description: `Re-analyzes files or folders whose source changed, so the other tools see current notes. Unchanged files are served from the cache. ${options.config.outputFile} files on disk are updated by the next full run.`,
+        schema: z.object({
+          paths: z.array(z.string()).min(1).describe("Files or folders from the project root; [\".\"] for everything"),
+        }),
+        run: async ({ paths }) => this.refresh(paths),
+      }),
+    ];
+  }
+
+  async load(): Promise<void> {
+    this.cache = await loadCache(this.cachePath);
+    this.rebuild();
+  }
+
+  async handleLine(line: string): Promise<object | undefined> {
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      return { jsonrpc: "2.0", id: null, error: { code: PARSE_ERROR, message: "Parse error" } };
+    }
+
+    // Notifications (no id) never get a response
+    if (message.id === undefined) return undefined;
+
+    try {
+      const result = await this.dispatch(message.method ?? "", message.params ?? {});
+      return { jsonrpc: "2.0", id: message.id, result };
+    } catch (err) {
+      const code = err instanceof RpcError ? err.code : -32603;
+      return { jsonrpc: "2.0", id: message.id, error: { code, message: (err as Error).message } };
+    }
+  }
+
+  private async dispatch(method: string, params: Record<string, unknown>): Promise<object> {
+    switch (method) {
+      case "initialize": {
+        const requested = params.protocolVersion;
+        return {
+          protocolVersion: typeof requested === "string" && PROTOCOL_VERSIONS.includes(requested)
+            ? requested
+            : PROTOCOL_VERSIONS[0],
+          capabilities: { tools: {} },
+          serverInfo: { name: "cliffnotes", version: "1.0.0" },
+          instructions: `Navigate this codebase's notes top-down: get_folder_notes(".") first, then descend into relevant subfolders, then read the source files they point to.`,
+        };
+      }
+      case "ping":
+        return {};
+      case "tools/list":
+        return {
+          tools: this.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            inputSchema: zodSchema(tool.schema).jsonSchema,
+          })),
+        };
+      case "tools/call":
+        return this.callTool(String(params.name), params.arguments ?? {});
+      default:
+        throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  private async callTool(name: string, args: unknown): Promise<ToolResult> {
+    const tool = this.tools.find(t => t.name === name);
+    if (!tool) {
+      throw new RpcError(INVALID_PARAMS, `Unknown tool: ${name}`);
+    }
+
+    // Bad arguments and missing paths are tool errors, so the model sees them and can correct itself
+    const parsed = tool.schema.safeParse(args);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(i => `${i.path.join(".") || "arguments"}: ${i.message}`);
+      return { content: [{ type: "text", text: `Invalid arguments: ${issues.join("; ")}` }], isError: true };
+    }
+
+    try {
+      return { content: [{ type: "text", text: await tool.run(parsed.data) }] };
+    } catch (err) {
+      return { content: [{ type: "text", text: (err as Error).message }], isError: true };
+    }
+  }
+
+  private folderNotes(path: string): string {
+    const folder = this.folder(path);
+    return stripManifest(generateFolderCliffnotes(folder, folder.path === ".", {
+      outputFile: this.options.config.outputFile,
+      rollups: this.rollups,
+      categories: this.options.categories,
+      workspaces: this.options.workspaces,
+    }));
+  }
+
+  private fileSummary(path: string): string {
+    const relativePath = normalizePath(path);
+    const entry = getCacheEntry(this.cache, relativePath);
+    if (!entry) {
+      throw new Error(`No notes for ${relativePath}. Use list_subfolders or search_notes to find the right path.`);
+    }
+    return renderFileNotes({ relativePath, category: entry.category, notes: entry.notes });
+  }
+
+  private subfolders(path: string) {
+    const folder = this.folder(path);
+    return folder.subfolders.map(name => {
+      const subPath = folder.path === "." ? name : `${folder.path}/${name}`;
+      return {
+        path: subPath,
+        description: this.rollups.get(subPath)?.description ?? "",
+        files: this.countFiles(subPath),
+      };
+    });
+  }
+
+  private documents() {
+    return cachedFiles(this.cache).map(([path, entry]) => ({
+      path,
+      category: entry.category,
+      summary: renderFileNotes({ relativePath: path, category: entry.category, notes: entry.notes }),
+      notes: entry.notes,
+    }));
+  }
+
+  /**
+   * Re-analyzes the files under `paths` and drops cache entries for files
+   * that are gone. Refreshes run one at a time.
+   */
+  private async refresh(paths: string[]): Promise<string> {
+    const run = this.refreshing.then(async () => {
+      const { rootDir, config, categories, log } = this.options;
+      const scopes = paths.map(normalizePath);
+      const inScope = (relativePath: string) =>
+        scopes.some(scope => scope === "." || relativePath === scope || relativePath.startsWith(`${scope}/`));
+
+      const discovered = await discoverFiles(rootDir, config);
+      const files = discovered.filter(f => inScope(f.relative));
+      const current = new Set(discovered.map(f => f.relative));
+      const removed = Object.keys(this.cache.files).filter(path => inScope(path) && !current.has(path));
+      for (const path of removed) {
+        deleteCacheEntry(this.cache, path);
+      }
+
+      log?.(`Refreshing ${files.length} files under ${scopes.join(", ")}`);
+      // Checkpoint as analyses land, so a shutdown mid-refresh keeps what was paid for
+      const checkpointer = new CacheCheckpointer(this.cachePath, this.cache);
+      const result = await analyzeFiles(files, this.cache, {
+        concurrency: config.concurrency,
+        model: config.model,
+        maxRetries: config.maxRetries,
+        chunkTokens: config.chunkTokens,
+        categories,
+        settingsFor: this.options.settingsFor,
+        signal: this.signal,
+        onProgress: (_file, status) => {
+          if (status === "analyzed") checkpointer.schedule();
+        },
+        onChunk: () => checkpointer.schedule(),
+      });
+      await checkpointer.flush();
+
+      // Keep a failed file's finished chunks for the next refresh
+      if (result.failures.length === 0 && !this.signal?.aborted) collectGarbage(this.cache);
+      await saveCache(this.cachePath, this.cache);
+      this.rebuild();
+
+      const interrupted = result.interrupted > 0 ? ` Stopped by shutdown before ${result.interrupted} files.` : "";
+      const lines = [
+        `Refreshed ${files.length} files: ${result.analyzed} re-analyzed, ${result.cached} unchanged, ${removed.length} removed, ${result.failures.length} failed.${interrupted}`,
+        ...result.failures.map(f => `- ${f.relativePath}: ${f.error}`),
+      ];
+      return lines.join("\n");
+    });
+
+    // A failed refresh must not block the next one
+    this.refreshing = run.catch(() => {});
+    return run;
+  }
+
+  private rebuild() {
+    const analyses: FileAnalysis[] = cachedFiles(this.cache).map(([relativePath, entry]) =>
+      analysisFromCache(resolve(this.options.rootDir, relativePath), relativePath, entry)
+    );
+    analyses.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+
+    const folders = getFoldersWithContent(buildFolderTree(analyses));
+    this.folders = new Map(folders.map(f => [f.path, f]));
+    this.rollups = new Map(Object.entries(this.cache.rollups ?? {}));
+  }
+
+  private folder(path: string): FolderInfo {
+    const folderPath = normalizePath(path);
+    const folder = this.folders.get(folderPath);
+    if (!folder) {
+      throw new Error(`No notes for folder ${folderPath}. Use list_subfolders(".") to see what exists.`);
+    }
+    return folder;
+  }
+
+  private countFiles(folderPath: string): number {
+    let count = 0;
+    for (const folder of this.folders.values()) {
+      if (folder.path === folderPath || folder.path.startsWith(`${folderPath}/`)) {
+        count += folder.files.length;
+      }
+    }
+    return count;
+  }
+
+  private get cachePath(): string {
+    return resolve(this.options.rootDir, this.options.config.cacheFile);
+  }
+}
+
+class RpcError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Accepts "", "/", "./src/" and "src" alike
+ */
+function normalizePath(path: string): string {
+  const trimmed = path.trim().replace(/^\.\/|^\/+/, "").replace(/\/+$/, "");
+  return trimmed === "" ? "." : trimmed;
+}
@@ -0,0 +1,75 @@
+import { z } from "zod";
+import type { FileNotes } from "./types.js";
+
+/**
+ * Schema for structured file analysis. Everything but the purpose defaults
+ * to empty so a response that leaves out an inapplicable field still validates.
+ */
+export const FILE_NOTES_SCHEMA: z.ZodType<FileNotes, z.ZodTypeDef, unknown> = z.object({
+  purpose: z.string().describe("One sentence: what this file does"),
+  exports: z.array(z.object({
+    name: z.string(),
+    kind: z.string().describe("function, class, type, interface, const, component, hook, ..."),
+    signature: z.string().describe("Full signature, e.g. createUser(input: NewUser): Promise<User>"),
+    description: z.string(),
+  })).default([]),
+  endpoints: z.array(z.object({
+    method: z.string().describe("HTTP method, or query/mutation/subscription"),
+    path: z.string().describe("URL path or procedure name"),
+    input: z.string(),
+    output: z.string(),
+    description: z.string(),
+    auth: z.string().describe("Auth or middleware requirements; empty if public"),
+  })).default([]),
+  props: z.array(z.object({
+    name: z.string(),
+    type: z.string(),
+    required: z.boolean(),
+    description: z.string(),
+  })).default([]),
+  envVars: z.array(z.object({
+    name: z.string(),
+    description: z.string(),
+  })).default([]),
+  details: z.string().default("").describe("Category-specific markdown not covered by the other fields"),
+  searchTerms: z.array(z.string()).default([]).describe("Grep-friendly identifiers, strings and error messages"),
+});
+
+/**
+ * Repairs the usual ways models break JSON: a code fence or sentence around
+ * the object, and trailing commas. Returns null when there is nothing to fix,
+ * which makes the call fail and be retried.
+ */
+export async function repairNotesText({ text }: { text: string }): Promise<string | null> {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+
+  const repaired = text.slice(start, end + 1).replace(/,\s*([}\]])/g, "$1");
+  return repaired === text ? null : repaired;
+}
+
+/**
+ * Converts a markdown summary from before structured output into notes:
+ * the purpose and search terms are lifted out, the rest becomes `details`.
+ */
+export function notesFromMarkdown(summary: string): FileNotes {
+  const purpose = summary.match(/\*\*Purpose:\*\*\s*(.+)/)?.[1].trim() ?? "";
+  const termsLine = summary.match(/\*\*Search terms:\*\*\s*(.+)/)?.[1] ?? "";
+  const searchTerms = [...termsLine.matchAll(/`([^`]+)`/g)].map(m => m[1]);
+
+  const details = summary
+    .split("\n")
+    .filter(line => !/^## |^\*\*(Purpose|Category|Search terms):\*\*/.test(line))
+    .join("\n")
+    .trim();
+
+  return { purpose, exports: [], endpoints: [], props: [], envVars: [], details, searchTerms };
+}
+
+/**
+ * Notes for a file we deliberately didn't send to the model
+ */
+export function placeholderNotes(reason: string): FileNotes {
+  return { purpose: `[Skipped - ${reason}]`, exports: [], endpoints: [], props: [], envVars: [], details: "", searchTerms: [] };
+}
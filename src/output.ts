@@ -1,38 +1,68 @@
-import { writeFile, mkdir } from "fs/promises";
-import { resolve, dirname } from "path";
-import type { FileAnalysis, CostSummary, FileCategory, FolderInfo, FolderTree } from "./types.js";
-
-// Order categories by importance for the output
-const CATEGORY_ORDER: FileCategory[] = [
-  "schema",
-  "router",
-  "service",
-  "hook",
-  "component",
-  "util",
-  "type",
-  "config",
-  "test",
-  "other",
-];
-
-const CATEGORY_LABELS: Record<FileCategory, string> = {
-  schema: "Database Schemas",
-  router: "API Routes & Endpoints",
-  service: "Services & Business Logic",
-  hook: "Hooks",
-  component: "Components",
-  util: "Utilities",
-  type: "Type Definitions",
-  config: "Configuration",
-  test: "Tests",
-  other: "Other Files",
-};
+import { writeFile, mkdir, rm, readdir } from "fs/promises";
+import { existsSync } from "fs";
+import { resolve, dirname, basename, extname } from "path";
+import {
+  DEFAULT_CONFIG,
+  type FileAnalysis,
+  type CostSummary,
+  type FileCategory,
+  type FolderInfo,
+  type FolderRollup,
+  type FolderTree,
+  type Workspace,
+} from "./types.js";
+import { Categories } from "./categories.js";
+import { renderManifest } from "./manifest.js";
+import { countTokens } from "./tokens.js";
+import type { ImportGraph } from "./graph.js";
+
+/**
+ * Optional inputs shared by the note generators
+ */
+export interface NotesOptions {
+  outputFile?: string;                    // Defaults to CLIFFNOTES.md
+  rollups?: Map<string, FolderRollup>;    // Folder summaries keyed by folder path
+  architecture?: string;                  // Markdown for the root "Architecture" section
+  graph?: ImportGraph;                    // Adds "Depends on" / "Used by" to each file
+  categories?: Categories;                // Section labels and order; defaults to the built-ins
+  workspaces?: Workspace[];               // Monorepo packages: a header in each, a map at the root
+  maxTokens?: number;                     // Ceiling per notes file; larger folders are split into pages
+}
+
+/**
+ * Where a folder's file summaries go once its notes are over the token
+ * ceiling: category pages, with shorter entries (or none) left behind
+ */
+export interface NotesLayout {
+  pages: Map<FileCategory, string[]>;     // Page file names for each category, in order
+  entries: "brief" | "none";              // What the main file keeps under each category
+}
+
+interface NotesPage {
+  fileName: string;
+  content: string;
+}
+
+// Long script commands are cut so the header stays a glance
+const MAX_SCRIPT_LENGTH = 60;
+
+// Exports and endpoints named in a brief entry
+const BRIEF_ITEMS = 8;
 
 /**
  * Generates a CLIFFNOTES.md for a single folder
  */
-export function generateFolderCliffnotes(folder: FolderInfo, isRoot: boolean): string {
+export function generateFolderCliffnotes(
+  folder: FolderInfo,
+  isRoot: boolean,
+  options: NotesOptions = {},
+  layout?: NotesLayout
+): string {
+  const {
+    outputFile = DEFAULT_CONFIG.outputFile,
+    rollups = new Map(),
+    workspaces = [],
+  } = options;
   const sections: string[] = [];
   const folderDisplayName = folder.path === "." ? "Project Root" : folder.path;
 
@@ -47,10 +77,20 @@ export function generateFolderCliffnotes(folder: FolderInfo, isRoot: boolean): s
   } else {
     sections.push(`# ${folderDisplayName}
 
-> Context for this folder. Read parent CLIFFNOTES.md for broader context.
+> Context for this folder. Read parent ${outputFile} for broader context.
 `);
   }
 
+  const workspace = workspaces.find(w => w.path === folder.path);
+  if (workspace) {
+    sections.push(formatPackageHeader(workspace, workspaces));
+  }
+
+  const ownRollup = rollups.get(folder.path);
+  if (ownRollup) {
+    sections.push(formatRollupOverview(ownRollup));
+  }
+
   // Subfolders section - this is KEY for navigation
   if (folder.subfolders.length > 0) {
     sections.push(`## Subfolders
@@ -59,46 +99,25 @@ Dig into these folders for more context:
 
 ${folder.subfolders.map(sub => {
   const subPath = folder.path === "." ? sub : `${folder.path}/${sub}`;
-  return `- **${sub}/** - Read \`${sub}/CLIFFNOTES.md\` for ${sub} context`;
+  const rollup = rollups.get(subPath);
+  if (!rollup) {
+    return `- **${sub}/** - Read \`${sub}/${outputFile}\` for ${sub} context`;
+  }
+  return `- **${sub}/** - ${rollup.description} Read \`${sub}/${outputFile}\`${formatRollupTerms(rollup)}`;
 }).join("\n")}
 `);
   }
 
   // Files in this folder
   if (folder.files.length > 0) {
-    // Group by category
-    const byCategory = new Map<FileCategory, FileAnalysis[]>();
-    for (const file of folder.files) {
-      if (!byCategory.has(file.category)) {
-        byCategory.set(file.category, []);
-      }
-      byCategory.get(file.category)!.push(file);
-    }
-
     sections.push(`## Files in This Folder
 `);
-
-    // Quick index
-    sections.push(`### Quick Index
-
-${folder.files.map(f => {
-  const fileName = f.relativePath.split("/").pop()!;
-  return `- \`${fileName}\` (${f.category})`;
-}).join("\n")}
-`);
-
-    // Detailed summaries by category
-    for (const category of CATEGORY_ORDER) {
-      const files = byCategory.get(category);
-      if (!files || files.length === 0) continue;
-
-      sections.push(`### ${CATEGORY_LABELS[category]}
-
-${files.map(f => f.summary).join("\n\n---\n\n")}
-`);
-    }
+    sections.push(...formatFileSections(folder.files, options, layout));
   }
 
+  // Lets `cliffnotes check` tell which sources these notes describe
+  sections.push(renderManifest(folder));
+
   return sections.join("\n");
 }
 
@@ -109,8 +128,16 @@ export function generateRootCliffnotes(
   folder: FolderInfo,
   allFolders: FolderInfo[],
   cost: CostSummary,
-  stats: { cached: number; analyzed: number }
+  stats: { cached: number; analyzed: number },
+  options: NotesOptions = {},
+  layout?: NotesLayout
 ): string {
+  const {
+    outputFile = DEFAULT_CONFIG.outputFile,
+    rollups = new Map(),
+    architecture,
+    workspaces = [],
+  } = options;
   const sections: string[] = [];
   const timestamp = new Date().toISOString();
 
@@ -120,17 +147,26 @@ export function generateRootCliffnotes(
 
 ## How to Use
 
-This codebase uses hierarchical CLIFFNOTES.md files:
+This codebase uses hierarchical ${outputFile} files:
 1. Start here at the root to understand the project structure
-2. Navigate into subfolders by reading their CLIFFNOTES.md files
-3. Each folder's CLIFFNOTES.md describes its contents and points to subfolders
-
+2. Navigate into subfolders by reading their ${outputFile} files
+3. Each folder's ${outputFile} describes its contents and points to subfolders
+${architecture ? `
+## Architecture
+
+${architecture.trim()}
+` : ""}${workspaces.length > 0 ? `
+${formatPackageMap(workspaces, allFolders, rollups, outputFile)}` : ""}
 ## Project Structure
 
 ${folder.subfolders.map(sub => {
   const subFolder = allFolders.find(f => f.path === sub);
   const fileCount = subFolder ? countFilesRecursive(sub, allFolders) : 0;
-  return `- **${sub}/** - ${fileCount} files - Read \`${sub}/CLIFFNOTES.md\``;
+  const rollup = rollups.get(sub);
+  if (!rollup) {
+    return `- **${sub}/** - ${fileCount} files - Read \`${sub}/${outputFile}\``;
+  }
+  return `- **${sub}/** - ${fileCount} files - ${rollup.description} Read \`${sub}/${outputFile}\`${formatRollupTerms(rollup)}`;
 }).join("\n")}
 
 ## Generation Stats
@@ -138,40 +174,289 @@ ${folder.subfolders.map(sub => {
 - **Folders with context:** ${allFolders.length}
 - **Total tokens:** ${cost.inputTokens.toLocaleString()} in / ${cost.outputTokens.toLocaleString()} out
 - **Estimated cost:** $${cost.estimatedCost.toFixed(4)}
+- **Models:** ${Object.entries(cost.byModel).map(([id, m]) => `\`${id}\` (${m.summaries} summaries)`).join(", ")}
 `);
 
   // Files in root folder
   if (folder.files.length > 0) {
-    const byCategory = new Map<FileCategory, FileAnalysis[]>();
-    for (const file of folder.files) {
-      if (!byCategory.has(file.category)) {
-        byCategory.set(file.category, []);
-      }
-      byCategory.get(file.category)!.push(file);
-    }
-
     sections.push(`## Root Files
+`);
+    sections.push(...formatFileSections(folder.files, options, layout));
+  }
 
-### Quick Index
+  // Lets `cliffnotes check` tell which sources these notes describe
+  sections.push(renderManifest(folder));
 
-${folder.files.map(f => {
-  const fileName = f.relativePath.split("/").pop()!;
-  return `- \`${fileName}\` (${f.category})`;
-}).join("\n")}
+  return sections.join("\n");
+}
+
+/**
+ * The Quick Index, which always lists every file, then the summaries by
+ * category - or, for categories moved to pages, links and shorter entries
+ */
+function formatFileSections(files: FileAnalysis[], options: NotesOptions, layout?: NotesLayout): string[] {
+  const { graph, categories = new Categories() } = options;
+  const sections: string[] = [];
+
+  sections.push(`### Quick Index
+
+${files.map(f => `- \`${fileName(f)}\` (${f.category})`).join("\n")}
 `);
 
-    for (const category of CATEGORY_ORDER) {
-      const files = byCategory.get(category);
-      if (!files || files.length === 0) continue;
+  for (const [category, inCategory] of groupByCategory(files, categories)) {
+    const pages = layout?.pages.get(category);
+    if (!pages) {
+      sections.push(`### ${categories.label(category)}
+
+${inCategory.map(f => renderFileSection(f, graph)).join("\n\n---\n\n")}
+`);
+      continue;
+    }
 
-      sections.push(`### ${CATEGORY_LABELS[category]}
+    const links = pages.map(page => `[\`${page}\`](${page})`).join(", ");
+    const entries = layout!.entries === "brief"
+      ? `\n\n${inCategory.map(f => `- \`${fileName(f)}\` - ${renderBriefNotes(f)}`).join("\n")}`
+      : "";
+    sections.push(`### ${categories.label(category)}
 
-${files.map(f => f.summary).join("\n\n---\n\n")}
+Full notes: ${links}${entries}
 `);
+  }
+
+  return sections;
+}
+
+/**
+ * A file's notes in one line: its purpose, then the names of its exports
+ * and endpoints
+ */
+export function renderBriefNotes(file: Pick<FileAnalysis, "notes">): string {
+  const { notes } = file;
+  const extras: string[] = [];
+  if (notes.exports.length > 0) {
+    extras.push(`Exports: ${limitList(notes.exports.map(e => e.name))}`);
+  }
+  if (notes.endpoints.length > 0) {
+    extras.push(`Endpoints: ${limitList(notes.endpoints.map(e => `${e.method.toUpperCase()} ${e.path}`))}`);
+  }
+  const purpose = oneLine(notes.purpose);
+  return extras.length > 0 ? `${purpose} ${extras.join(". ")}` : purpose;
+}
+
+function limitList(items: string[]): string {
+  const shown = items.slice(0, BRIEF_ITEMS).map(item => `\`${item}\``).join(", ");
+  return items.length > BRIEF_ITEMS ? `${shown} and ${items.length - BRIEF_ITEMS} more` : shown;
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function fileName(file: FileAnalysis): string {
+  return file.relativePath.split("/").pop()!;
+}
+
+function groupByCategory(files: FileAnalysis[], categories: Categories): [FileCategory, FileAnalysis[]][] {
+  const byCategory = new Map<FileCategory, FileAnalysis[]>();
+  for (const file of files) {
+    if (!byCategory.has(file.category)) {
+      byCategory.set(file.category, []);
     }
+    byCategory.get(file.category)!.push(file);
   }
+  return categories.sort(byCategory.keys()).map(category => [category, byCategory.get(category)!]);
+}
 
-  return sections.join("\n");
+/**
+ * The file name of a category page: CLIFFNOTES.md becomes
+ * CLIFFNOTES.components.md, and later parts CLIFFNOTES.components-2.md
+ */
+export function notesPageName(outputFile: string, category: string, part = 1): string {
+  const ext = extname(outputFile);
+  const slug = category.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "other";
+  return `${outputFile.slice(0, outputFile.length - ext.length)}.${slug}${part > 1 ? `-${part}` : ""}${ext}`;
+}
+
+/**
+ * Whether a path is a category page written next to a notes file
+ */
+export function isNotesPage(path: string, outputFile: string): boolean {
+  const ext = extname(outputFile);
+  const stem = outputFile.slice(0, outputFile.length - ext.length);
+  const name = basename(path);
+  return name.startsWith(`${stem}.`) && name.endsWith(ext) && /^[a-z0-9-]+$/.test(name.slice(stem.length + 1, name.length - ext.length));
+}
+
+/**
+ * The folder's own rollup, shown under its heading
+ */
+function formatRollupOverview(rollup: FolderRollup): string {
+  const lines = [`## Overview
+
+${rollup.description}
+`];
+  if (rollup.entryPoints.length > 0) {
+    lines.push(`**Start with:** ${rollup.entryPoints.map(e => `\`${e}\``).join(", ")}`);
+  }
+  if (rollup.searchTerms.length > 0) {
+    lines.push(`**Search terms:** ${rollup.searchTerms.map(t => `\`${t}\``).join(", ")}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Name, entry points, scripts and sibling dependencies of a workspace package
+ */
+function formatPackageHeader(workspace: Workspace, workspaces: Workspace[]): string {
+  const usedBy = workspaces.filter(w => w.dependsOn.includes(workspace.name)).map(w => w.name);
+  const lines = [`## Package: \`${workspace.name}\`
+`];
+  if (workspace.description) {
+    lines.push(`${workspace.description}
+`);
+  }
+  if (workspace.entryPoints.length > 0) {
+    lines.push(`- **Entry points:** ${workspace.entryPoints.map(e => `\`${e}\``).join(", ")}`);
+  }
+  const scripts = Object.entries(workspace.scripts);
+  if (scripts.length > 0) {
+    lines.push(`- **Scripts:** ${scripts.map(([name, command]) => formatScript(name, command)).join(", ")}`);
+  }
+  lines.push(`- **Depends on:** ${formatPackageNames(workspace.dependsOn, workspaces)}`);
+  lines.push(`- **Used by:** ${formatPackageNames(usedBy, workspaces)}`);
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * The root's table of workspace packages and how they depend on each other
+ */
+function formatPackageMap(
+  workspaces: Workspace[],
+  allFolders: FolderInfo[],
+  rollups: Map<string, FolderRollup>,
+  outputFile: string
+): string {
+  const rows = workspaces.map(w => {
+    const hasNotes = allFolders.some(f => f.path === w.path);
+    const path = hasNotes ? `[\`${w.path}/\`](${w.path}/${outputFile})` : `\`${w.path}/\``;
+    const description = w.description ?? rollups.get(w.path)?.description ?? "";
+    const dependsOn = w.dependsOn.length > 0 ? w.dependsOn.map(d => `\`${d}\``).join(", ") : "-";
+    return `| \`${w.name}\` | ${path} | ${tableCell(dependsOn)} | ${tableCell(description)} |`;
+  });
+
+  return `## Packages
+
+| Package | Path | Depends on | Description |
+|---------|------|------------|-------------|
+${rows.join("\n")}
+`;
+}
+
+function formatScript(name: string, command: string): string {
+  if (!command) return `\`${name}\``;
+  const short = command.length > MAX_SCRIPT_LENGTH ? `${command.slice(0, MAX_SCRIPT_LENGTH - 1)}…` : command;
+  return `\`${name}\` (\`${short.replace(/`/g, "'")}\`)`;
+}
+
+function formatPackageNames(names: string[], workspaces: Workspace[]): string {
+  if (names.length === 0) return "-";
+  return names.map(name => {
+    const path = workspaces.find(w => w.name === name)?.path;
+    return path ? `\`${name}\` (\`${path}/\`)` : `\`${name}\``;
+  }).join(", ");
+}
+
+/**
+ * Entry points and search terms for a subfolder bullet, as an indented line
+ */
+function formatRollupTerms(rollup: FolderRollup): string {
+  const parts: string[] = [];
+  if (rollup.entryPoints.length > 0) {
+    parts.push(`start with ${rollup.entryPoints.slice(0, 3).map(e => `\`${e}\``).join(", ")}`);
+  }
+  if (rollup.searchTerms.length > 0) {
+    parts.push(`terms: ${rollup.searchTerms.slice(0, 6).map(t => `\`${t}\``).join(", ")}`);
+  }
+  return parts.length > 0 ? `\n  - ${parts.join("; ")}` : "";
+}
+
+/**
+ * Renders a file's structured notes as its markdown summary
+ */
+export function renderFileNotes(file: Pick<FileAnalysis, "relativePath" | "category" | "notes">): string {
+  const { notes } = file;
+  const sections: string[] = [];
+
+  sections.push(`## ${file.relativePath}
+**Purpose:** ${notes.purpose}
+**Category:** ${file.category}`);
+
+  if (notes.exports.length > 0) {
+    sections.push(`**Exports:**
+${notes.exports.map(e => `- \`${e.signature || e.name}\`${e.description ? ` - ${e.description}` : ""}`).join("\n")}`);
+  }
+
+  if (notes.endpoints.length > 0) {
+    const withAuth = notes.endpoints.some(e => e.auth);
+    const header = withAuth
+      ? "| Method | Path | Input | Output | Auth | Description |\n|--------|------|-------|--------|------|-------------|"
+      : "| Method | Path | Input | Output | Description |\n|--------|------|-------|--------|-------------|";
+    const rows = notes.endpoints.map(e => {
+      const cells = [e.method, e.path, code(e.input), code(e.output), ...(withAuth ? [e.auth || "-"] : []), e.description];
+      return `| ${cells.map(tableCell).join(" | ")} |`;
+    });
+    sections.push(`**Endpoints:**
+${header}
+${rows.join("\n")}`);
+  }
+
+  if (notes.props.length > 0) {
+    sections.push(`**Props:**
+${notes.props.map(p => `- \`${p.name}${p.required ? "" : "?"}: ${p.type}\`${p.description ? ` - ${p.description}` : ""}`).join("\n")}`);
+  }
+
+  if (notes.envVars.length > 0) {
+    sections.push(`**Env vars:** ${notes.envVars.map(v => `\`${v.name}\``).join(", ")}`);
+  }
+
+  if (notes.details.trim()) {
+    sections.push(notes.details.trim());
+  }
+
+  if (notes.searchTerms.length > 0) {
+    sections.push(`**Search terms:** ${notes.searchTerms.map(t => `\`${t}\``).join(", ")}`);
+  }
+
+  return sections.join("\n\n");
+}
+
+function code(value: string): string {
+  return value && value !== "-" ? `\`${value}\`` : "-";
+}
+
+function tableCell(value: string): string {
+  return (value || "-").replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+/**
+ * A file's summary followed by its static import edges, if we have a graph
+ */
+function renderFileSection(file: FileAnalysis, graph?: ImportGraph): string {
+  const summary = renderFileNotes(file);
+  if (!graph) return summary;
+
+  const dependsOn = graph.imports.get(file.relativePath) ?? [];
+  const usedBy = graph.importedBy.get(file.relativePath) ?? [];
+  if (dependsOn.length === 0 && usedBy.length === 0) return summary;
+
+  const format = (paths: string[]) =>
+    paths.length > 0 ? paths.map(p => `\`${p}\``).join(", ") : "-";
+
+  return `${summary}
+
+**Internal dependencies:**
+- Depends on: ${format(dependsOn)}
+- Used by: ${format(usedBy)}`;
 }
 
 /**
@@ -190,36 +475,37 @@ function countFilesRecursive(folderPath: string, allFolders: FolderInfo[]): numb
 /**
  * Generates the context-finder agent markdown file
  */
-export function generateContextFinderAgent(): string {
+export function generateContextFinderAgent(outputFile: string = DEFAULT_CONFIG.outputFile): string {
   return `---
 name: context-finder
-description: Use this agent to find which files to add to context for a task. It navigates the hierarchical CLIFFNOTES.md files to identify relevant files.
+description: Use this agent to find which files to add to context for a task. It navigates the hierarchical ${outputFile} files to identify relevant files.
 model: inherit
 ---
 
-You are a context-finding agent that navigates hierarchical CLIFFNOTES.md files to identify which source files are relevant for a given task.
+You are a context-finding agent that navigates hierarchical ${outputFile} files to identify which source files are relevant for a given task.
 
 ## How CLIFFNOTES Work
 
-This codebase has a CLIFFNOTES.md file in each folder:
-- The root CLIFFNOTES.md describes the overall structure and points to subfolders
-- Each subfolder's CLIFFNOTES.md describes files in that folder and points to deeper subfolders
-- Navigate deeper by reading subsequent CLIFFNOTES.md files until you find all relevant context
+This codebase has a ${outputFile} file in each folder:
+- The root ${outputFile} describes the overall structure and points to subfolders
+- Each subfolder's ${outputFile} describes files in that folder and points to deeper subfolders
+- Navigate deeper by reading subsequent ${outputFile} files until you find all relevant context
 
 ## Your Process
 
-1. **Start at root**: Read the root CLIFFNOTES.md to understand project structure
+1. **Start at root**: Read the root ${outputFile} to understand project structure
 2. **Identify relevant areas**: Based on the task, determine which top-level folders are relevant
-3. **Dig deeper**: Read CLIFFNOTES.md in relevant subfolders
-4. **Continue until sufficient**: Keep reading deeper CLIFFNOTES.md files until you have enough context
+3. **Dig deeper**: Read ${outputFile} in relevant subfolders
+4. **Continue until sufficient**: Keep reading deeper ${outputFile} files until you have enough context
 5. **Output file list**: Return the list of source files the main agent should read
 
 ## Navigation Rules
 
-- Always start with the root CLIFFNOTES.md
-- For each relevant subfolder mentioned, read its CLIFFNOTES.md
-- Look at the "Subfolders" section to know when to dig deeper
+- Always start with the root ${outputFile}
+- For each relevant subfolder mentioned, read its ${outputFile}
+- Look at the "Subfolders" section to know when to dig deeper - each entry describes what that folder is responsible for
 - Look at the "Files in This Folder" section to identify relevant source files
+- Use each file's "Depends on" / "Used by" lists to pull in the neighbors a change will touch
 - Stop when you've found all files related to the task
 
 ## Output Format
@@ -228,7 +514,7 @@ After navigating the CLIFFNOTES hierarchy, output:
 
 ### Relevant Files
 
-List all source files (NOT CLIFFNOTES.md files) that should be read for this task:
+List all source files (NOT ${outputFile} files) that should be read for this task:
 
 \`\`\`
 path/to/file1.ts
@@ -238,10 +524,10 @@ path/to/etc.ts
 
 ### Navigation Path
 
-Show which CLIFFNOTES.md files you read to find these:
-1. \`CLIFFNOTES.md\` (root)
-2. \`folder/CLIFFNOTES.md\`
-3. \`folder/subfolder/CLIFFNOTES.md\`
+Show which ${outputFile} files you read to find these:
+1. \`${outputFile}\` (root)
+2. \`folder/${outputFile}\`
+3. \`folder/subfolder/${outputFile}\`
 
 ### Reasoning
 
@@ -250,15 +536,15 @@ Brief explanation of why these files are relevant to the task.
 ## Example Tasks
 
 **Task: "Modify the user authentication flow"**
-1. Read root CLIFFNOTES.md -> see "api/" handles backend
-2. Read api/CLIFFNOTES.md -> see "routers/" has API routes
-3. Read api/routers/CLIFFNOTES.md -> find auth-related routers
+1. Read root ${outputFile} -> see "api/" handles backend
+2. Read api/${outputFile} -> see "routers/" has API routes
+3. Read api/routers/${outputFile} -> find auth-related routers
 4. Output: auth router files, user model, related middleware
 
 **Task: "Add a new button to the dashboard"**
-1. Read root CLIFFNOTES.md -> see "client/" or "app/" for frontend
-2. Read client/CLIFFNOTES.md -> see "components/" and "pages/"
-3. Read relevant component/page CLIFFNOTES.md files
+1. Read root ${outputFile} -> see "client/" or "app/" for frontend
+2. Read client/${outputFile} -> see "components/" and "pages/"
+3. Read relevant component/page ${outputFile} files
 4. Output: dashboard component, button components, related hooks
 
 ## Important
@@ -271,45 +557,164 @@ Brief explanation of why these files are relevant to the task.
 }
 
 /**
- * Writes all CLIFFNOTES.md files for the folder tree
+ * Writes all CLIFFNOTES.md files for the folder tree. `only` limits the
+ * writes to those folder paths; `folders` must still be the whole tree.
  */
 export async function writeAllCliffnotes(
   rootDir: string,
   folders: FolderInfo[],
   cost: CostSummary,
-  stats: { cached: number; analyzed: number }
+  stats: { cached: number; analyzed: number },
+  options: NotesOptions = {},
+  only?: ReadonlySet<string>
 ): Promise<number> {
+  const outputFile = options.outputFile ?? DEFAULT_CONFIG.outputFile;
   let written = 0;
 
   for (const folder of folders) {
+    if (only && !only.has(folder.path)) continue;
     const isRoot = folder.path === ".";
-    const content = isRoot
-      ? generateRootCliffnotes(folder, folders, cost, stats)
-      : generateFolderCliffnotes(folder, false);
+    const { content, pages } = await fitNotes(folder, options, layout => isRoot
+      ? generateRootCliffnotes(folder, folders, cost, stats, options, layout)
+      : generateFolderCliffnotes(folder, false, options, layout));
 
     const outputPath = isRoot
-      ? resolve(rootDir, "CLIFFNOTES.md")
-      : resolve(rootDir, folder.path, "CLIFFNOTES.md");
+      ? resolve(rootDir, outputFile)
+      : resolve(rootDir, folder.path, outputFile);
 
     // Ensure directory exists
     const dir = dirname(outputPath);
     await mkdir(dir, { recursive: true });
 
     await writeFile(outputPath, content);
+    for (const page of pages) {
+      await writeFile(resolve(dir, page.fileName), page.content);
+    }
+    await removePages(dir, outputFile, new Set(pages.map(page => page.fileName)));
     written++;
   }
 
   return written;
 }
 
+/**
+ * Keeps a folder's notes under `options.maxTokens`. Over it, each category's
+ * full summaries move to their own pages and the main file keeps a brief
+ * entry per file; if that's still too big, only the links remain. The Quick
+ * Index always lists every file.
+ */
+async function fitNotes(
+  folder: FolderInfo,
+  options: NotesOptions,
+  render: (layout?: NotesLayout) => string
+): Promise<{ content: string; pages: NotesPage[] }> {
+  const content = render();
+  const { maxTokens } = options;
+  if (!maxTokens || folder.files.length === 0 || await countTokens(content) <= maxTokens) {
+    return { content, pages: [] };
+  }
+
+  const pages = await renderPages(folder, options, maxTokens);
+  const names = new Map<FileCategory, string[]>();
+  for (const page of pages) {
+    names.set(page.category, [...names.get(page.category) ?? [], page.fileName]);
+  }
+
+  const brief = render({ pages: names, entries: "brief" });
+  if (await countTokens(brief) <= maxTokens) {
+    return { content: brief, pages };
+  }
+  return { content: render({ pages: names, entries: "none" }), pages };
+}
+
+/**
+ * One page per category with the full summaries. A category that alone is
+ * over the ceiling continues on numbered parts.
+ */
+async function renderPages(
+  folder: FolderInfo,
+  options: NotesOptions,
+  maxTokens: number
+): Promise<(NotesPage & { category: FileCategory })[]> {
+  const { outputFile = DEFAULT_CONFIG.outputFile, graph, categories = new Categories() } = options;
+  const folderDisplayName = folder.path === "." ? "Project Root" : folder.path;
+  const pages: (NotesPage & { category: FileCategory })[] = [];
+
+  for (const [category, files] of groupByCategory(folder.files, categories)) {
+    const label = categories.label(category);
+    const header = (part: number, total: number) => `# ${folderDisplayName} - ${label}${total > 1 ? ` (${part} of ${total})` : ""}
+
+> Full notes for this folder's files under ${label}. The overview and the Quick Index are in [\`${outputFile}\`](${outputFile}).
+`;
+
+    // Fill each part up to the ceiling; a summary bigger than that still gets a part to itself
+    const budget = maxTokens - await countTokens(header(99, 99)) - 50;
+    const parts: string[][] = [[]];
+    let used = 0;
+    for (const file of files) {
+      const section = renderFileSection(file, graph);
+      const tokens = await countTokens(section);
+      if (used > 0 && used + tokens > budget) {
+        parts.push([]);
+        used = 0;
+      }
+      parts[parts.length - 1].push(section);
+      used += tokens;
+    }
+
+    parts.forEach((sections, i) => {
+      const next = i + 1 < parts.length ? notesPageName(outputFile, category, i + 2) : undefined;
+      pages.push({
+        category,
+        fileName: notesPageName(outputFile, category, i + 1),
+        content: `${header(i + 1, parts.length)}
+${sections.join("\n\n---\n\n")}
+${next ? `\nContinued in [\`${next}\`](${next}).\n` : ""}`,
+      });
+    });
+  }
+
+  return pages;
+}
+
+/**
+ * Deletes the category pages in a folder that weren't just written
+ */
+async function removePages(dir: string, outputFile: string, keep: ReadonlySet<string> = new Set()): Promise<void> {
+  if (!existsSync(dir)) return;
+  for (const name of await readdir(dir)) {
+    if (isNotesPage(name, outputFile) && !keep.has(name)) {
+      await rm(resolve(dir, name), { force: true });
+    }
+  }
+}
+
+/**
+ * Deletes the CLIFFNOTES.md (and any category pages) of folders that no
+ * longer have any files
+ */
+export async function removeCliffnotes(
+  rootDir: string,
+  folderPaths: Iterable<string>,
+  outputFile: string = DEFAULT_CONFIG.outputFile
+): Promise<void> {
+  for (const folderPath of folderPaths) {
+    await rm(resolve(rootDir, folderPath, outputFile), { force: true });
+    await removePages(resolve(rootDir, folderPath), outputFile);
+  }
+}
+
 /**
  * Writes the context-finder agent file
  */
-export async function writeContextFinderAgent(rootDir: string): Promise<void> {
+export async function writeContextFinderAgent(
+  rootDir: string,
+  outputFile: string = DEFAULT_CONFIG.outputFile
+): Promise<void> {
   const agentDir = resolve(rootDir, ".claude", "agents");
   await mkdir(agentDir, { recursive: true });
 
-  const content = generateContextFinderAgent();
+  const content = generateContextFinderAgent(outputFile);
   await writeFile(resolve(agentDir, "context-finder.md"), content);
 }
 
@@ -1,13 +1,65 @@
-import type { FileCategory } from "./types.js";
+import { isBuiltinCategory, type Categories } from "./categories.js";
+import { detectLanguage, isJavaScriptLike } from "./languages.js";
+import type { BuiltinCategory, CategoryDefinition, FileCategory, Language } from "./types.js";
+
+// Folders and file names used by migration tools (Prisma, Rails-style, Flyway, Alembic, goose, diesel)
+const MIGRATION_PATH = /(^|\/)(migrations?|migrate|alembic\/versions)\/|(^|\/)(\d{3,}|v\d+__)[^/]*\.sql$/i;
+
+// Content signals for the non-JS languages, checked before the path heuristics
+const BACKEND_SIGNALS: Record<"python" | "go" | "rust", { test: RegExp; router: RegExp; schema: RegExp }> = {
+  python: {
+    test: /(^|\/)(tests?\/|test_[^/]*\.py$|[^/]*_test\.py$|conftest\.py$)/,
+    router: /@(app|router|api|bp|blueprint)\.(get|post|put|patch|delete|route|websocket)\(|\bAPIRouter\(|\bBlueprint\(|\burlpatterns\s*=|\bViewSet\b/,
+    schema: /\bmodels\.Model\b|\bdeclarative_base\(|\(DeclarativeBase\)|\bmapped_column\(|\btable\s*=\s*True\b|\bsa\.Column\(/,
+  },
+  go: {
+    test: /_test\.go$/,
+    router: /\.HandleFunc\(|\.Handle\("|\bgin\.(Default|New)\(|\bchi\.NewRouter\(|\becho\.New\(|\bfiber\.New\(|\.(GET|POST|PUT|PATCH|DELETE)\("\//,
+    schema: /\bgorm\.Model\b|`[^`]*\bgorm:"|\bent\.Schema\b/,
+  },
+  rust: {
+    test: /(^|\/)tests\//,
+    router: /#\[(get|post|put|patch|delete|route)\(|\bRouter::new\(\)|\.route\(\s*"|\bweb::(get|post|put|delete|resource|scope)\(/,
+    schema: /\bdiesel::table!|^\s*table!\s*\{|#\[derive\([^)]*\b(Queryable|Insertable|DeriveEntityModel|FromRow)\b/m,
+  },
+};
 
 /**
- * Detects the category of a file based on its path and content patterns.
- * This helps the AI tailor its analysis.
+ * Detects the category of a file based on its language, path and content patterns.
+ * Categories declared in config are tried first. This helps the AI tailor its analysis.
  */
-export function detectCategory(filePath: string, content: string): FileCategory {
+export function detectCategory(
+  filePath: string,
+  content: string,
+  categories?: Categories
+): FileCategory {
+  const custom = categories?.match(filePath, content);
+  if (custom) {
+    return custom;
+  }
+
+  const language = detectLanguage(filePath, content);
   const lowerPath = filePath.toLowerCase();
   const lowerContent = content.toLowerCase();
 
+  if (MIGRATION_PATH.test(lowerPath)) {
+    return "migration";
+  }
+
+  switch (language) {
+    case "prisma":
+    case "graphql":
+      return "schema";
+    case "openapi":
+      return "router";
+    case "sql":
+      return lowerContent.includes("create table") ? "schema" : "other";
+    case "python":
+    case "go":
+    case "rust":
+      return detectBackendCategory(language, lowerPath, content);
+  }
+
   // Schema detection (Prisma, Drizzle, etc.)
   if (
     lowerPath.includes("schema.prisma") ||
@@ -115,25 +167,78 @@ export function detectCategory(filePath: string, content: string): FileCategory
   return "other";
 }
 
+/**
+ * Categories for Python, Go and Rust. The JS heuristics above don't apply:
+ * a Django `app/` folder isn't full of React components.
+ */
+function detectBackendCategory(
+  language: "python" | "go" | "rust",
+  lowerPath: string,
+  content: string
+): FileCategory {
+  const signals = BACKEND_SIGNALS[language];
+
+  if (signals.test.test(lowerPath)) return "test";
+  if (signals.router.test(content)) return "router";
+  if (signals.schema.test(content) || /(^|\/)models?(\/|\.py$)|(^|\/)schema\.rs$/.test(lowerPath)) {
+    return "schema";
+  }
+
+  if (
+    /(^|\/)(config|settings|conf)(\/|\.|_)/.test(lowerPath) ||
+    lowerPath.endsWith("/env.py")
+  ) {
+    return "config";
+  }
+
+  if (/(^|\/)types?(\/|\.py$|\.go$|\.rs$)/.test(lowerPath)) {
+    return "type";
+  }
+
+  if (
+    /(^|\/)(utils?|helpers?|common)(\/|\.)/.test(lowerPath)
+  ) {
+    return "util";
+  }
+
+  if (
+    /(^|\/)(services?|internal|domain|handlers?|core)\//.test(lowerPath) ||
+    /^\s*class\s/m.test(content) ||       // Python classes
+    /^func\s*\([^)]*\)/m.test(content) ||  // Go methods
+    /^\s*impl\b/m.test(content)            // Rust impl blocks
+  ) {
+    return "service";
+  }
+
+  if (/^(async\s+)?def\s|^func\s|^\s*pub\s+(async\s+)?fn\s/m.test(content)) {
+    return "util";
+  }
+
+  return "other";
+}
+
 /**
  * The core analysis prompt. This is the heart of cliffnotes.
  *
  * Design principles:
  * - Terse but complete: Every word must earn its place
- * - Consistent format: Easy to parse and search
+ * - Structured: Schema-validated JSON, rendered to markdown by output.ts
  * - AI-optimized: Contains grep patterns and clear entry points
  * - Category-aware: Different file types get appropriate treatment
  */
 export function buildAnalysisPrompt(
   relativePath: string,
   content: string,
-  category: FileCategory
+  category: FileCategory,
+  language: Language,
+  definition?: CategoryDefinition
 ): string {
-  const categoryInstructions = getCategoryInstructions(category);
+  const categoryInstructions = getCategoryInstructions(category, language, definition);
 
   return `You are generating cliffnotes for a codebase. Your output will be used by AI assistants to understand where to find things and how the code works.
 
 FILE: ${relativePath}
+LANGUAGE: ${language}
 CATEGORY: ${category}
 
 <file_content>
@@ -142,29 +247,234 @@ ${content}
 
 ${categoryInstructions}
 
-FORMAT YOUR RESPONSE EXACTLY LIKE THIS (omit sections that don't apply):
+${buildFormatInstructions(category, language, definition)}`;
+}
+
+/**
+ * Prompt for one part of a file too large to analyze in one call.
+ * The model documents only this part; buildChunkMergePrompt stitches the parts together.
+ */
+export function buildChunkPrompt(
+  relativePath: string,
+  category: FileCategory,
+  language: Language,
+  chunk: { content: string; startLine: number; endLine: number; index: number; total: number },
+  fileDeclarations: string[],
+  definition?: CategoryDefinition
+): string {
+  return `You are generating cliffnotes for a codebase. This file is too large to read at once, so you are seeing PART ${chunk.index + 1} OF ${chunk.total} (lines ${chunk.startLine}-${chunk.endLine}).
+
+FILE: ${relativePath}
+LANGUAGE: ${language}
+CATEGORY: ${category}
+TOP-LEVEL DECLARATIONS IN THE WHOLE FILE: ${fileDeclarations.join(", ") || "(none)"}
+
+<file_part>
+${chunk.content}
+</file_part>
+
+${getCategoryInstructions(category, language, definition)}
+
+Document ONLY what appears in this part, using the category's format below. Skip the heading and Purpose line - your notes will be merged with the other parts.
+
+${getFormatTemplate(category, language, definition)}
+
+**Search terms:** \`term1\`, \`term2\` [grep-friendly terms from this part]
+
+RULES:
+- Be extremely terse. No fluff.
+- Never invent content from other parts; they are documented separately.
+- For schemas and routers, be exhaustive: every model/field or route in this part.`;
+}
+
+/**
+ * Prompt that merges per-chunk notes into one file summary in the usual format
+ */
+export function buildChunkMergePrompt(
+  relativePath: string,
+  category: FileCategory,
+  language: Language,
+  chunkNotes: { startLine: number; endLine: number; notes: string }[],
+  definition?: CategoryDefinition
+): string {
+  const parts = chunkNotes
+    .map((c, i) => `<part index="${i + 1}" lines="${c.startLine}-${c.endLine}">\n${c.notes}\n</part>`)
+    .join("\n\n");
+
+  return `You are generating cliffnotes for a codebase. A large file was analyzed in ${chunkNotes.length} parts; merge the notes for those parts into ONE coherent summary of the whole file.
+
+FILE: ${relativePath}
+LANGUAGE: ${language}
+CATEGORY: ${category}
+
+${parts}
+
+Combine the parts (one endpoints list, one schema block, one exports list), drop duplicates, and write a single purpose for the whole file.
+
+${buildFormatInstructions(category, language, definition)}`;
+}
 
-## ${relativePath}
-**Purpose:** [One sentence: what this file does]
-**Category:** ${category}
+/**
+ * The structured response fields and rules shared by full-file and merged analyses
+ */
+function buildFormatInstructions(
+  category: FileCategory,
+  language: Language,
+  definition?: CategoryDefinition
+): string {
+  return `RESPOND WITH A JSON OBJECT WITH THESE FIELDS (use [] or "" for fields that don't apply):
 
-${getFormatTemplate(category)}
+- purpose: One sentence: what this file does
+- exports: Every exported function, class, type, constant, component or hook - { name, kind, signature, description }
+- endpoints: Every route or procedure - { method, path, input, output, description, auth }
+- props: Component props - { name, type, required, description }
+- envVars: Environment variables the file reads - { name, description }
+- details: Markdown for everything else this category calls for, shaped like the template below. Leave out what the other fields already cover.
+- searchTerms: Grep-friendly terms to find this file's functionality
 
-**Search terms:** \`term1\`, \`term2\`, \`term3\` [grep-friendly terms to find this file's functionality]
+DETAILS TEMPLATE:
+${getFormatTemplate(category, language, definition)}
 
 RULES:
 - Be extremely terse. No fluff.
-- For schemas: Include the FULL schema verbatim - every field, every relation, every index
-- For routers: Every route must be documented with method, path, input→output
-- For components: Focus on props interface and what data it fetches/mutates
-- For types: Include the full type definitions verbatim if they're important domain types
+- For schemas: Include the FULL schema verbatim in details - every field, every relation, every index
+- For migrations: Every schema change, in order
+- For routers and API specs: Every route must be in endpoints with method, path, input→output
+- For components: Focus on props and what data it fetches/mutates
+- For types: Include the full type definitions verbatim in details if they're important domain types
+- Signatures are complete and copy-pasteable: parameters with types and the return type
 - Grep terms should be specific: function names, unique strings, error messages
 - Skip obvious imports unless they reveal architecture (e.g., importing from a specific service)
-- If a file is trivial (re-exports, simple constants), say so in one line`;
+- If a file is trivial (re-exports, simple constants), say so in purpose and leave the rest empty`;
+}
+
+/**
+ * Prompt for a folder rollup: a short description of what a folder is
+ * responsible for, built from its file summaries and its subfolders' rollups.
+ * Parent folders show this so navigators can decide whether to descend.
+ */
+export function buildRollupPrompt(
+  folderPath: string,
+  files: { name: string; summary: string }[],
+  subfolders: { name: string; description: string }[]
+): string {
+  const fileSection = files.length > 0
+    ? files.map(f => `<file name="${f.name}">\n${f.summary}\n</file>`).join("\n\n")
+    : "(no files directly in this folder)";
+
+  const subfolderSection = subfolders.length > 0
+    ? subfolders.map(s => `- ${s.name}/: ${s.description}`).join("\n")
+    : "(none)";
+
+  return `You are summarizing a FOLDER of a codebase for AI assistants deciding whether to look inside it.
+
+FOLDER: ${folderPath}
+
+FILE SUMMARIES:
+${fileSection}
+
+SUBFOLDERS:
+${subfolderSection}
+
+Respond with EXACTLY these three lines and nothing else:
+
+DESCRIPTION: [1-2 sentences: what this folder is responsible for, naming the key domain concepts]
+ENTRY POINTS: [comma-separated file names in this folder (or subfolder/ names) to read first; "none" if empty]
+SEARCH TERMS: [comma-separated grep-friendly identifiers that live under this folder]
+
+RULES:
+- Be extremely terse. No fluff, no "This folder contains".
+- Describe responsibility, not a list of files.
+- Only name entry points and search terms that appear above.`;
 }
 
-function getCategoryInstructions(category: FileCategory): string {
-  const instructions: Record<FileCategory, string> = {
+/**
+ * Prompt for the project-wide architecture overview at the root.
+ * `outline` is the folder tree with rollups and one line per file.
+ */
+export function buildArchitecturePrompt(outline: string): string {
+  return `You are writing the ARCHITECTURE overview of a codebase for AI assistants that are about to navigate it.
+
+Below is the folder tree. Each folder has a short description where available, and each file has its category and purpose.
+
+<codebase_outline>
+${outline}
+</codebase_outline>
+
+FORMAT YOUR RESPONSE EXACTLY LIKE THIS (markdown, omit sections you can't support from the outline):
+
+### Layers
+- **[layer name]** (\`folder/\`) - [what lives there and what it depends on]
+
+### Request & Data Flow
+[2-5 numbered steps tracing a typical request or job through the layers, naming folders/files]
+
+### Tech Stack
+[comma-separated frameworks, libraries and datastores evident from the outline]
+
+### Entry Points
+- \`path/to/file\` - [what starts here: server, CLI, worker, app shell]
+
+### Where to Start
+| Task | Look in |
+|------|---------|
+| [common task type, e.g. "Add an API endpoint"] | \`folder/\`, \`file\` |
+
+RULES:
+- Be extremely terse. No fluff, no introductions.
+- Only name folders and files that appear in the outline.
+- Prefer concrete paths over general advice.`;
+}
+
+/**
+ * Prompt for one step of `cliffnotes find`: given a folder's notes, pick the
+ * files relevant to the task and the subfolders worth reading next.
+ */
+export function buildFindPrompt(
+  task: string,
+  folderPath: string,
+  notes: string,
+  selectedSoFar: string[]
+): string {
+  const selectedSection = selectedSoFar.length > 0
+    ? selectedSoFar.map(f => `- ${f}`).join("\n")
+    : "(none yet)";
+
+  return `You are finding which source files a developer must read for a task, by navigating per-folder notes of a codebase.
+
+TASK: ${task}
+
+CURRENT FOLDER: ${folderPath === "." ? "(project root)" : folderPath}
+
+<folder_notes>
+${notes}
+</folder_notes>
+
+FILES ALREADY SELECTED:
+${selectedSection}
+
+RESPOND WITH A JSON OBJECT WITH THESE FIELDS:
+- files: source file paths from the "Files in This Folder" section that are relevant to the task, exactly as written in their headings
+- descend: subfolder names from the "Subfolders" section whose description suggests more relevant files
+- reasoning: one sentence on why these files and subfolders matter for the task
+
+RULES:
+- Only name files and subfolders that appear in the notes above.
+- Use each file's "Depends on" / "Used by" lists to include neighbors a change will touch.
+- Leave descend empty once the selected files cover the task.
+- Prefer including a borderline file over missing a needed one.`;
+}
+
+/**
+ * Instructions for a category: the config definition's text if it has one,
+ * else the built-in text (generic for custom categories), plus language notes.
+ */
+function getCategoryInstructions(
+  category: FileCategory,
+  language: Language,
+  definition?: CategoryDefinition
+): string {
+  const instructions: Record<BuiltinCategory, string> = {
     schema: `This is a DATABASE SCHEMA file. Output the COMPLETE schema verbatim including:
 - All models/tables with ALL fields and types
 - All relations and foreign keys
@@ -172,6 +482,12 @@ function getCategoryInstructions(category: FileCategory): string {
 - Enums and custom types
 This is critical reference material - do not summarize, include everything.`,
 
+    migration: `This is a DATABASE MIGRATION. Document:
+- Every schema change in order (tables created/dropped, columns added/altered/removed, indexes, constraints)
+- Data migrations or backfills
+- Whether it can be rolled back (down migration present)
+- Anything destructive (drops, type changes that lose data)`,
+
     router: `This is a ROUTER/API file. Document EVERY endpoint:
 - HTTP method and path (or procedure name for tRPC)
 - Input type/validation (Zod schema, body params, query params)
@@ -226,16 +542,42 @@ This is reference material - keep full definitions.`,
 - How other files would use this`,
   };
 
-  return instructions[category];
+  const base = definition?.instructions
+    ?? (isBuiltinCategory(category)
+      ? instructions[category]
+      : `This is a ${(definition?.label ?? category).toUpperCase()} file. Document:
+- Its purpose in the codebase
+- Key exports and their signatures
+- How other files would use this`);
+
+  const languageNotes = LANGUAGE_INSTRUCTIONS[language];
+  return languageNotes ? `${base}\n\n${languageNotes}` : base;
 }
 
-function getFormatTemplate(category: FileCategory): string {
-  const templates: Record<FileCategory, string> = {
+function getFormatTemplate(
+  category: FileCategory,
+  language: Language,
+  definition?: CategoryDefinition
+): string {
+  if (definition?.template) return definition.template;
+
+  const override = FORMAT_OVERRIDES[language]?.[category];
+  if (override) return override;
+
+  const schemaFence = isJavaScriptLike(language) ? "" : CODE_FENCES[language] ?? "";
+  const typeFence = CODE_FENCES[language] ?? "typescript";
+
+  const templates: Record<BuiltinCategory, string> = {
     schema: `**Schema:**
-\`\`\`
+\`\`\`${schemaFence}
 [FULL SCHEMA HERE - DO NOT SUMMARIZE]
 \`\`\``,
 
+    migration: `**Changes:**
+- [e.g. CREATE TABLE \`orders\` (id, user_id → users.id, total), ADD INDEX on \`user_id\`]
+**Data:** [backfills or data fixes, if any]
+**Reversible:** [yes/no]`,
+
     router: `**Endpoints:**
 | Method | Path | Input | Output | Description |
 |--------|------|-------|--------|-------------|
@@ -263,7 +605,7 @@ function getFormatTemplate(category: FileCategory): string {
 **Defaults:** [important defaults]`,
 
     type: `**Types:**
-\`\`\`typescript
+\`\`\`${typeFence}
 [FULL TYPE DEFINITIONS]
 \`\`\``,
 
@@ -274,5 +616,85 @@ function getFormatTemplate(category: FileCategory): string {
 - [list key exports with brief descriptions]`,
   };
 
-  return templates[category];
+  return isBuiltinCategory(category) ? templates[category] : templates.other;
 }
+
+const CODE_FENCES: Partial<Record<Language, string>> = {
+  python: "python",
+  go: "go",
+  rust: "rust",
+  sql: "sql",
+  prisma: "prisma",
+  graphql: "graphql",
+};
+
+/**
+ * Language-specific notes appended to the category instructions.
+ * TypeScript/JavaScript need none - the category instructions assume them.
+ */
+const LANGUAGE_INSTRUCTIONS: Partial<Record<Language, string>> = {
+  python: `LANGUAGE NOTES (Python):
+- Give signatures with type hints: \`def name(arg: Type) -> Return\`
+- Routes: FastAPI/Flask decorators or Django urlpatterns/views; take input and output from Pydantic models, serializers or request parsing
+- Models: Django/SQLAlchemy/SQLModel classes with every field, type, relation and constraint
+- The public API is \`__all__\`, or the names without a leading underscore`,
+
+  go: `LANGUAGE NOTES (Go):
+- Name the package. Exported identifiers are Capitalized - document those
+- Give signatures with receivers: \`func (s *Server) Name(ctx context.Context, id string) (*User, error)\`
+- Routes: net/http, chi, gin, echo or fiber registrations - method, path and handler function
+- Models: structs with their struct tags (json, db, gorm); note interfaces implemented`,
+
+  rust: `LANGUAGE NOTES (Rust):
+- Public items are \`pub\` - document those with signatures: \`pub fn name(arg: Type) -> Result<T, E>\`
+- Routes: axum/actix/rocket definitions - method, path, handler and extractors (Json, Path, Query, State)
+- Models: structs with their derives, and diesel \`table!\` blocks
+- Note traits implemented, error types and feature flags`,
+
+  sql: `LANGUAGE NOTES (SQL):
+- Use the table and column names exactly as written
+- Include foreign keys, indexes, triggers and views`,
+
+  prisma: `LANGUAGE NOTES (Prisma):
+- Include every model, enum and @relation, every @@index/@@unique/@@map, and the datasource and generator blocks verbatim`,
+
+  graphql: `LANGUAGE NOTES (GraphQL SDL):
+- Include every type, input, enum, interface, union and directive verbatim
+- List every Query, Mutation and Subscription field with its arguments and return type`,
+
+  openapi: `LANGUAGE NOTES (OpenAPI spec):
+- Document EVERY path and method under \`paths\`: operationId, parameters or request body schema, success response schema, and security requirements
+- List the component schemas by name with their key fields
+- Note the servers (base URLs) and auth schemes`,
+};
+
+/**
+ * Format templates that replace the category template for a language,
+ * where the source has a better native shape (SDL operations, spec paths).
+ */
+const FORMAT_OVERRIDES: Partial<Record<Language, Partial<Record<FileCategory, string>>>> = {
+  graphql: {
+    schema: `**Operations:**
+| Type | Field | Args | Returns |
+|------|-------|------|---------|
+| Query | ... | ... | ... |
+
+**Schema:**
+\`\`\`graphql
+[FULL SDL HERE - DO NOT SUMMARIZE]
+\`\`\``,
+  },
+
+  openapi: {
+    router: `**Servers:** [base URLs]
+**Auth:** [security schemes]
+
+**Endpoints:**
+| Method | Path | operationId | Input | Output | Description |
+|--------|------|-------------|-------|--------|-------------|
+| ... | ... | ... | ... | ... | ... |
+
+**Schemas:**
+- \`SchemaName\` - { field: type, field?: type }`,
+  },
+};
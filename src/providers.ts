@@ -0,0 +1,174 @@
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import type { LanguageModel } from "ai";
+import type { ModelConfig, ModelPricing, ProviderName } from "./types.js";
+
+interface ProviderInfo {
+  defaultModel?: string;
+  defaultBaseURL?: string;
+  apiKeyEnv?: string;    // Env var the key is read from by default
+  local: boolean;        // Local servers never leave the machine and cost nothing
+  objectMode: "auto" | "json"; // How structured output is requested; "json" puts the schema in the prompt
+}
+
+const PROVIDERS: Record<ProviderName, ProviderInfo> = {
+  anthropic: {
+    defaultModel: "claude-opus-4-5-20251101",
+    apiKeyEnv: "ANTHROPIC_API_KEY",
+    local: false,
+    objectMode: "auto",
+  },
+  openai: {
+    defaultModel: "gpt-4.1",
+    defaultBaseURL: "https://api.openai.com/v1",
+    apiKeyEnv: "OPENAI_API_KEY",
+    local: false,
+    objectMode: "auto",
+  },
+  // Tool calling support varies across self-hosted servers; JSON mode is the safe bet
+  "openai-compatible": {
+    local: false,
+    objectMode: "json",
+  },
+  ollama: {
+    defaultModel: "qwen2.5-coder",
+    defaultBaseURL: "http://localhost:11434/v1",
+    local: true,
+    objectMode: "json",
+  },
+  llamacpp: {
+    defaultModel: "default",
+    defaultBaseURL: "http://localhost:8080/v1",
+    local: true,
+    objectMode: "json",
+  },
+};
+
+export const PROVIDER_NAMES = Object.keys(PROVIDERS) as ProviderName[];
+
+// USD per 1M tokens, matched by model ID prefix (longest prefix wins)
+const PRICING_TABLE: Record<string, ModelPricing> = {
+  "claude-opus-4-5": { inputPer1M: 5.0, outputPer1M: 25.0 },
+  "claude-opus-4-1": { inputPer1M: 15.0, outputPer1M: 75.0 },
+  "claude-opus-4": { inputPer1M: 15.0, outputPer1M: 75.0 },
+  "claude-sonnet-4-5": { inputPer1M: 3.0, outputPer1M: 15.0 },
+  "claude-sonnet-4": { inputPer1M: 3.0, outputPer1M: 15.0 },
+  "claude-haiku-4-5": { inputPer1M: 1.0, outputPer1M: 5.0 },
+  "claude-3-5-haiku": { inputPer1M: 0.8, outputPer1M: 4.0 },
+  "gpt-4.1": { inputPer1M: 2.0, outputPer1M: 8.0 },
+  "gpt-4.1-mini": { inputPer1M: 0.4, outputPer1M: 1.6 },
+  "gpt-4.1-nano": { inputPer1M: 0.1, outputPer1M: 0.4 },
+  "gpt-4o": { inputPer1M: 2.5, outputPer1M: 10.0 },
+  "gpt-4o-mini": { inputPer1M: 0.15, outputPer1M: 0.6 },
+};
+
+/**
+ * A model ready to be passed to the AI SDK, plus what we need for bookkeeping
+ */
+export interface ResolvedModel {
+  id: string;              // "<provider>/<model>" - recorded on every summary
+  languageModel: LanguageModel;
+  objectMode: "auto" | "json";
+}
+
+/**
+ * Creates the AI SDK model for a config. API keys are read from the env.
+ */
+export function resolveModel(config: ModelConfig): ResolvedModel {
+  const info = PROVIDERS[config.provider];
+  const apiKeyEnv = getApiKeyEnv(config);
+  const apiKey = apiKeyEnv ? process.env[apiKeyEnv] : undefined;
+
+  if (config.provider === "anthropic") {
+    const anthropic = createAnthropic({ apiKey, baseURL: config.baseURL });
+    return { id: getModelId(config), languageModel: anthropic(config.model), objectMode: info.objectMode };
+  }
+
+  const baseURL = config.baseURL ?? info.defaultBaseURL;
+  if (!baseURL) {
+    throw new Error(`Provider "${config.provider}" requires a base URL (--base-url or model.baseURL in config)`);
+  }
+
+  const provider = createOpenAICompatible({
+    name: config.provider,
+    baseURL,
+    apiKey,
+  });
+  return {
+    id: getModelId(config),
+    languageModel: provider.chatModel(config.model),
+    objectMode: info.objectMode,
+  };
+}
+
+/**
+ * Builds a model config for a provider, filling in its default model.
+ * Throws if the provider has no sensible default and no model was given.
+ */
+export function buildModelConfig(
+  base: ModelConfig,
+  overrides: { provider?: string; model?: string; baseURL?: string }
+): ModelConfig {
+  if (overrides.provider !== undefined && !isProviderName(overrides.provider)) {
+    throw new Error(`Unknown provider "${overrides.provider}". Expected one of: ${PROVIDER_NAMES.join(", ")}`);
+  }
+
+  const provider = overrides.provider ?? base.provider;
+  const switchedProvider = provider !== base.provider;
+  const model = overrides.model ?? (switchedProvider ? PROVIDERS[provider].defaultModel : base.model);
+
+  if (!model) {
+    throw new Error(`Provider "${provider}" has no default model - pass one with --model`);
+  }
+
+  return {
+    // Endpoint, key and pricing settings belong to the configured provider
+    ...(switchedProvider ? {} : base),
+    provider,
+    model,
+    baseURL: overrides.baseURL ?? (switchedProvider ? undefined : base.baseURL),
+  };
+}
+
+export function isProviderName(value: string): value is ProviderName {
+  return value in PROVIDERS;
+}
+
+/**
+ * Env var holding the API key for a config, or undefined if none is needed
+ */
+export function getApiKeyEnv(config: ModelConfig): string | undefined {
+  return config.apiKeyEnv ?? PROVIDERS[config.provider].apiKeyEnv;
+}
+
+export function isLocalProvider(provider: ProviderName): boolean {
+  return PROVIDERS[provider].local;
+}
+
+export function getModelId(config: ModelConfig): string {
+  return `${config.provider}/${config.model}`;
+}
+
+/**
+ * Looks up pricing for a model ID ("<provider>/<model>").
+ * Local providers are free; unknown hosted models return undefined.
+ */
+export function getPricing(modelId: string, overrides?: Record<string, ModelPricing>): ModelPricing | undefined {
+  if (overrides?.[modelId]) {
+    return overrides[modelId];
+  }
+
+  const slash = modelId.indexOf("/");
+  const provider = modelId.slice(0, slash);
+  const model = modelId.slice(slash + 1);
+
+  if (isProviderName(provider) && isLocalProvider(provider)) {
+    return { inputPer1M: 0, outputPer1M: 0 };
+  }
+
+  const prefix = Object.keys(PRICING_TABLE)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? PRICING_TABLE[prefix] : undefined;
+}
@@ -0,0 +1,125 @@
+import { APICallError, NoObjectGeneratedError } from "ai";
+
+export interface RetryOptions {
+  maxRetries: number;       // Retries after the first attempt
+  baseDelayMs?: number;     // First backoff delay, doubled on each retry
+  maxDelayMs?: number;      // Upper bound for a single wait, server retry-after included
+  signal?: AbortSignal;     // Stops retrying (the current attempt still finishes)
+  onRetry?: (info: { attempt: number; delayMs: number; rateLimited: boolean; error: unknown }) => void;
+}
+
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 60_000;
+
+// 529 is Anthropic's "overloaded" status
+const RATE_LIMIT_STATUSES = new Set([429, 529]);
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+/**
+ * Thrown when a call still fails after all retries. Keeps the attempt count
+ * so the failure report can say how hard we tried.
+ */
+export class RetriesExhaustedError extends Error {
+  constructor(
+    readonly lastError: unknown,
+    readonly attempts: number
+  ) {
+    super(describeError(lastError));
+    this.name = "RetriesExhaustedError";
+  }
+}
+
+/**
+ * Runs `fn`, retrying transient failures with exponential backoff.
+ * A server-provided retry-after wins over the computed delay, but is
+ * capped at maxDelayMs so a "retry-after: 3600" can't stall a worker for an hour.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const baseDelay = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelay = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (!isRetryableError(err) || attempt >= options.maxRetries) {
+        throw new RetriesExhaustedError(err, attempt + 1);
+      }
+
+      // Full jitter keeps parallel workers from retrying in lockstep
+      const backoff = Math.min(maxDelay, baseDelay * 2 ** attempt);
+      const delayMs = Math.min(maxDelay, getRetryAfterMs(err) ?? Math.round(backoff / 2 + Math.random() * backoff / 2));
+
+      options.onRetry?.({ attempt: attempt + 1, delayMs, rateLimited: isRateLimitError(err), error: err });
+      await sleep(delayMs, options.signal);
+      options.signal?.throwIfAborted();
+    }
+  }
+}
+
+export function isRateLimitError(err: unknown): boolean {
+  return APICallError.isInstance(err) && RATE_LIMIT_STATUSES.has(err.statusCode ?? 0);
+}
+
+export function isRetryableError(err: unknown): boolean {
+  if (APICallError.isInstance(err)) {
+    // No status code means the request never got a response (connection reset, DNS, ...)
+    return err.statusCode === undefined || RETRYABLE_STATUSES.has(err.statusCode) || err.isRetryable;
+  }
+
+  // The model answered, but not with JSON matching the schema - worth asking again
+  if (NoObjectGeneratedError.isInstance(err)) {
+    return true;
+  }
+
+  // Network failures thrown by fetch before the SDK could wrap them
+  return err instanceof TypeError && /fetch|network|socket/i.test(err.message);
+}
+
+/**
+ * Reads retry-after-ms / retry-after (seconds or HTTP date) from the response
+ */
+export function getRetryAfterMs(err: unknown): number | undefined {
+  if (!APICallError.isInstance(err) || !err.responseHeaders) return undefined;
+
+  const headers = Object.fromEntries(
+    Object.entries(err.responseHeaders).map(([k, v]) => [k.toLowerCase(), v])
+  );
+
+  const ms = Number(headers["retry-after-ms"]);
+  if (headers["retry-after-ms"] && Number.isFinite(ms) && ms >= 0) {
+    return ms;
+  }
+
+  const retryAfter = headers["retry-after"];
+  if (!retryAfter) return undefined;
+
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export function describeError(err: unknown): string {
+  if (APICallError.isInstance(err) && err.statusCode !== undefined) {
+    return `HTTP ${err.statusCode}: ${err.message}`;
+  }
+  return err instanceof Error ? err.message : String(err);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
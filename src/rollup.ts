@@ -0,0 +1,203 @@
+import { createHash } from "crypto";
+import { generateText } from "ai";
+import { Semaphore, type ProgressStatus } from "./analyzer.js";
+import { buildRollupPrompt } from "./prompt.js";
+import { renderFileNotes } from "./output.js";
+import { resolveModel } from "./providers.js";
+import { isRateLimitError, RetriesExhaustedError, withRetry } from "./retry.js";
+import type {
+  AnalysisFailure,
+  CacheData,
+  FolderInfo,
+  FolderRollup,
+  ModelConfig,
+  RollupEntry,
+} from "./types.js";
+
+// Long schema/type summaries are cut down - the rollup only needs the gist
+const MAX_SUMMARY_CHARS = 1500;
+
+// Bump when buildRollupPrompt changes enough to warrant regenerating rollups
+const ROLLUP_PROMPT_VERSION = 1;
+
+export interface RollupOptions {
+  model: ModelConfig;
+  concurrency: number;
+  maxRetries: number;
+  signal?: AbortSignal;
+  only?: ReadonlySet<string>;   // Folders outside this set keep their existing rollup as-is
+  onProgress?: (folder: string, status: ProgressStatus, current: number, total: number) => void;
+}
+
+export interface RollupResult {
+  rollups: Map<string, RollupEntry>;   // Keyed by folder path
+  generated: number;
+  cached: number;
+  failures: AnalysisFailure[];
+}
+
+/**
+ * Summarizes every non-root folder, deepest first, so each parent is built
+ * from its children's rollups. A rollup is reused while the hash of its
+ * inputs (file summaries + child rollups) is unchanged.
+ */
+export async function generateFolderRollups(
+  folders: FolderInfo[],
+  cache: CacheData,
+  options: RollupOptions
+): Promise<RollupResult> {
+  const model = resolveModel(options.model);
+  const semaphore = new Semaphore(options.concurrency);
+  const previous = cache.rollups ?? {};
+  const rollups = new Map<string, RollupEntry>();
+  const failures: AnalysisFailure[] = [];
+
+  const targets = folders.filter(f => f.path !== ".");
+  const total = targets.length;
+  let completed = 0;
+  let generated = 0;
+  let cachedCount = 0;
+
+  // Group by depth and walk bottom-up; folders at the same depth run in parallel
+  const depths = [...new Set(targets.map(f => f.depth))].sort((a, b) => b - a);
+
+  for (const depth of depths) {
+    if (options.signal?.aborted) break;
+
+    await Promise.all(
+      targets
+        .filter(f => f.depth === depth)
+        .map(async (folder) => {
+          const children = folder.subfolders.map(name => ({
+            name,
+            entry: rollups.get(folder.path === "." ? name : `${folder.path}/${name}`),
+          }));
+          const inputHash = computeRollupInputHash(folder, children.map(c => c.entry?.inputHash));
+          const existing = previous[folder.path];
+          const kept = existing && options.only && !options.only.has(folder.path);
+
+          if (existing && (kept || existing.inputHash === inputHash)) {
+            rollups.set(folder.path, existing);
+            cachedCount++;
+            options.onProgress?.(folder.path, "cached", ++completed, total);
+            return;
+          }
+
+          await semaphore.acquire();
+          try {
+            options.signal?.throwIfAborted();
+
+            const prompt = buildRollupPrompt(
+              folder.path,
+              folder.files.map(f => ({
+                name: f.relativePath.split("/").pop()!,
+                summary: truncate(renderFileNotes(f), MAX_SUMMARY_CHARS),
+              })),
+              children
+                .filter(c => c.entry)
+                .map(c => ({ name: c.name, description: c.entry!.description }))
+            );
+
+            // The limit the current attempt was started under
+            let generation = semaphore.generation;
+            const result = await withRetry(
+              () => {
+                generation = semaphore.generation;
+                return generateText({
+                  model: model.languageModel,
+                  prompt,
+                  maxTokens: 512,
+                  maxRetries: 0,
+                });
+              },
+              {
+                maxRetries: options.maxRetries,
+                signal: options.signal,
+                onRetry: ({ rateLimited }) => {
+                  if (rateLimited) semaphore.backOff(generation);
+                },
+              }
+            );
+            semaphore.recordSuccess();
+
+            rollups.set(folder.path, {
+              ...parseRollupResponse(result.text),
+              inputHash,
+              analyzedAt: new Date().toISOString(),
+              model: model.id,
+              tokens: {
+                input: result.usage?.promptTokens ?? 0,
+                output: result.usage?.completionTokens ?? 0,
+              },
+            });
+            generated++;
+            options.onProgress?.(folder.path, "analyzed", ++completed, total);
+          } catch (err) {
+            if (options.signal?.aborted && !(err instanceof RetriesExhaustedError)) return;
+
+            const exhausted = err instanceof RetriesExhaustedError ? err : undefined;
+            failures.push({
+              relativePath: folder.path,
+              error: exhausted ? exhausted.message : (err as Error).message ?? String(err),
+              attempts: exhausted?.attempts ?? 1,
+              rateLimited: isRateLimitError(exhausted?.lastError),
+            });
+            options.onProgress?.(folder.path, "failed", ++completed, total);
+          } finally {
+            semaphore.release();
+          }
+        })
+    );
+  }
+
+  // Replace rather than merge so rollups for deleted folders drop out.
+  // An interrupted run keeps the old entries for folders it never reached.
+  cache.rollups = options.signal?.aborted
+    ? { ...previous, ...Object.fromEntries(rollups) }
+    : Object.fromEntries(rollups);
+
+  return { rollups, generated, cached: cachedCount, failures };
+}
+
+/**
+ * Hash of everything a folder's rollup is derived from. Child rollups are
+ * represented by their own input hash, so a change anywhere below a folder
+ * changes the hash of every ancestor.
+ */
+function computeRollupInputHash(folder: FolderInfo, childHashes: (string | undefined)[]): string {
+  const hash = createHash("sha256");
+  hash.update(`v${ROLLUP_PROMPT_VERSION}\n`);
+  for (const file of [...folder.files].sort((a, b) => a.relativePath.localeCompare(b.relativePath))) {
+    hash.update(`file:${file.relativePath}\n${JSON.stringify(file.notes)}\n`);
+  }
+  folder.subfolders.forEach((name, i) => {
+    hash.update(`dir:${name}:${childHashes[i] ?? "missing"}\n`);
+  });
+  return hash.digest("hex").slice(0, 16);
+}
+
+/**
+ * Parses the three labelled lines requested by buildRollupPrompt.
+ * Falls back to the first line of the response if the model ignored the format.
+ */
+export function parseRollupResponse(text: string): FolderRollup {
+  const field = (label: string) =>
+    text.match(new RegExp(`^\\s*\\**${label}\\**:\\s*(.+)$`, "im"))?.[1].trim();
+
+  const list = (value: string | undefined) =>
+    !value || /^none$/i.test(value)
+      ? []
+      : value.split(",").map(v => v.trim().replace(/^`|`$/g, "")).filter(Boolean);
+
+  const description = field("DESCRIPTION") ?? text.trim().split("\n")[0] ?? "";
+
+  return {
+    description,
+    entryPoints: list(field("ENTRY POINTS")),
+    searchTerms: list(field("SEARCH TERMS")),
+  };
+}
+
+function truncate(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max)}\n[...]`;
+}
@@ -0,0 +1,118 @@
+import { analysisFromCache } from "./analyzer.js";
+import { getCacheEntry, renameCacheEntry } from "./cache.js";
+import { readCommittedNotes, seedCache } from "./committed.js";
+import { folderAncestors } from "./discovery.js";
+import { getGitChanges, type GitScope } from "./git.js";
+import type { CacheData, CliffnotesConfig, FileAnalysis, Workspace } from "./types.js";
+
+export interface ScopedRun {
+  toAnalyze: { absolute: string; relative: string }[];
+  trusted: FileAnalysis[];       // Out-of-scope files, taken from the cache or committed notes as-is
+  affected: Set<string>;         // Folders whose notes must be rewritten
+  changed: number;               // Git changes, or files in the workspace
+  renamed: number;               // Cache entries carried over to a new path
+  seeded: number;                // Entries taken from the committed notes
+  seededFrom?: string;
+}
+
+/**
+ * Narrows a run to the files git reports as changed. Everything else keeps
+ * its existing notes - from the cache, or from the committed notes when
+ * there is no cache (a fresh CI clone). Files with no notes anywhere are
+ * analyzed too, so the output never has holes.
+ */
+export async function scopeToGitChanges(
+  rootDir: string,
+  config: CliffnotesConfig,
+  cache: CacheData,
+  files: { absolute: string; relative: string }[],
+  scope: GitScope
+): Promise<ScopedRun> {
+  const changes = await getGitChanges(rootDir, scope);
+
+  // Seed before carrying renames, so an entry that only exists in the committed notes moves too
+  const committed = await readCommittedNotes(rootDir, config);
+  const seeded = committed ? seedCache(cache, committed) : 0;
+
+  let renamed = 0;
+  for (const change of changes) {
+    if (change.status === "renamed" && renameCacheEntry(cache, change.from!, change.path)) renamed++;
+  }
+
+  const changed = new Set(changes.filter(c => c.status !== "deleted").map(c => c.path));
+  const affected = new Set<string>();
+  for (const change of changes) {
+    for (const path of change.from ? [change.path, change.from] : [change.path]) {
+      for (const folder of folderAncestors(path)) affected.add(folder);
+    }
+  }
+
+  const toAnalyze: ScopedRun["toAnalyze"] = [];
+  const trusted: FileAnalysis[] = [];
+  for (const file of files) {
+    const entry = getCacheEntry(cache, file.relative);
+    if (changed.has(file.relative) || !entry) {
+      toAnalyze.push(file);
+      for (const folder of folderAncestors(file.relative)) affected.add(folder);
+    } else {
+      trusted.push(analysisFromCache(file.absolute, file.relative, entry));
+    }
+  }
+
+  return {
+    toAnalyze,
+    trusted,
+    affected,
+    changed: changes.length,
+    renamed,
+    seeded,
+    seededFrom: committed?.source,
+  };
+}
+
+/**
+ * Narrows a run to one workspace of a monorepo. Its files are analyzed
+ * (cached ones still hit the cache); every other package keeps its notes
+ * untouched. Files outside with no notes anywhere are left for their own
+ * workspace's run instead of being analyzed here.
+ */
+export async function scopeToWorkspace(
+  rootDir: string,
+  config: CliffnotesConfig,
+  cache: CacheData,
+  files: { absolute: string; relative: string }[],
+  workspace: Workspace
+): Promise<ScopedRun> {
+  const committed = await readCommittedNotes(rootDir, config);
+  const seeded = committed ? seedCache(cache, committed) : 0;
+
+  const inside = (path: string) => path.startsWith(workspace.path + "/");
+
+  // Folders that only held since-deleted files need their notes rewritten or removed too
+  const affected = new Set<string>(folderAncestors(`${workspace.path}/`));
+  for (const path of Object.keys(cache.files)) {
+    if (inside(path)) for (const folder of folderAncestors(path)) affected.add(folder);
+  }
+
+  const toAnalyze: ScopedRun["toAnalyze"] = [];
+  const trusted: FileAnalysis[] = [];
+  for (const file of files) {
+    const entry = getCacheEntry(cache, file.relative);
+    if (inside(file.relative)) {
+      toAnalyze.push(file);
+      for (const folder of folderAncestors(file.relative)) affected.add(folder);
+    } else if (entry) {
+      trusted.push(analysisFromCache(file.absolute, file.relative, entry));
+    }
+  }
+
+  return {
+    toAnalyze,
+    trusted,
+    affected,
+    changed: toAnalyze.length,
+    renamed: 0,
+    seeded,
+    seededFrom: committed?.source,
+  };
+}
@@ -0,0 +1,182 @@
+import { resolve } from "path";
+import { existsSync } from "fs";
+import { cachedFiles, loadCache } from "./cache.js";
+import { readNotesIndex, INDEX_FILE, INDEX_JSONL_FILE } from "./export.js";
+import { renderFileNotes } from "./output.js";
+import type { CliffnotesConfig, FileCategory, FileNotes } from "./types.js";
+
+/**
+ * A file as search sees it - read from the index, or the cache when there is no index
+ */
+export interface SearchDocument {
+  path: string;
+  category: FileCategory;
+  summary: string;     // Rendered markdown
+  notes: FileNotes;
+}
+
+export interface SearchResult {
+  path: string;
+  category: FileCategory;
+  score: number;
+  snippet: string;     // The summary line that matched best
+  matched: string[];   // Query terms found in the file's notes
+}
+
+// BM25 parameters (the usual defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+// Extra weight for a query term found in these fields, on top of the summary text
+const SEARCH_TERM_BOOST = 3;
+const PATH_BOOST = 2;
+const CATEGORY_BOOST = 1.5;
+
+const SNIPPET_CHARS = 160;
+
+/**
+ * Loads the documents to search: the index if a run wrote one, else the
+ * cache. Never calls the API.
+ */
+export async function loadSearchDocuments(
+  rootDir: string,
+  config: CliffnotesConfig
+): Promise<{ documents: SearchDocument[]; source: string }> {
+  const index = await readNotesIndex(rootDir);
+  if (index) {
+    return {
+      documents: index.files.map(f => ({ path: f.path, category: f.category, summary: f.summary, notes: f.notes })),
+      source: existsSync(resolve(rootDir, INDEX_FILE)) ? INDEX_FILE : INDEX_JSONL_FILE,
+    };
+  }
+
+  const cachePath = resolve(rootDir, config.cacheFile);
+  if (!existsSync(cachePath)) {
+    return { documents: [], source: "none" };
+  }
+
+  const cache = await loadCache(cachePath);
+  const documents = cachedFiles(cache).map(([path, entry]) => ({
+    path,
+    category: entry.category,
+    summary: renderFileNotes({ relativePath: path, category: entry.category, notes: entry.notes }),
+    notes: entry.notes,
+  }));
+  return { documents, source: config.cacheFile };
+}
+
+/**
+ * Ranks documents with BM25 over their summaries, plus boosts for query
+ * terms that appear in a file's search terms, path or category.
+ */
+export function searchNotes(
+  documents: SearchDocument[],
+  query: string,
+  limit = 10
+): SearchResult[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0 || documents.length === 0) return [];
+
+  const prepared = documents.map(doc => {
+    const tokens = tokenize(doc.summary);
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+    return {
+      doc,
+      length: tokens.length,
+      frequencies,
+      searchTerms: new Set(doc.notes.searchTerms.flatMap(tokenize)),
+      path: new Set(tokenize(doc.path)),
+      category: new Set(tokenize(doc.category)),
+    };
+  });
+
+  const averageLength = prepared.reduce((sum, p) => sum + p.length, 0) / prepared.length || 1;
+  const idf = new Map(queryTerms.map(term => {
+    const df = prepared.filter(p => p.frequencies.has(term) || p.path.has(term)).length;
+    return [term, Math.log(1 + (prepared.length - df + 0.5) / (df + 0.5))];
+  }));
+
+  const results: SearchResult[] = [];
+  for (const p of prepared) {
+    let score = 0;
+    const matched: string[] = [];
+
+    for (const term of queryTerms) {
+      const termIdf = idf.get(term)!;
+      const tf = p.frequencies.get(term) ?? 0;
+      let termScore = tf > 0
+        ? termIdf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * p.length / averageLength))
+        : 0;
+
+      if (p.searchTerms.has(term)) termScore += SEARCH_TERM_BOOST * termIdf;
+      if (p.path.has(term)) termScore += PATH_BOOST * termIdf;
+      if (p.category.has(term)) termScore += CATEGORY_BOOST * termIdf;
+
+      if (termScore > 0) {
+        score += termScore;
+        matched.push(term);
+      }
+    }
+
+    if (score > 0) {
+      results.push({
+        path: p.doc.path,
+        category: p.doc.category,
+        score: Math.round(score * 100) / 100,
+        snippet: bestSnippet(p.doc.summary, queryTerms),
+        matched,
+      });
+    }
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+    .slice(0, limit);
+}
+
+/**
+ * Splits text into lowercase words. Identifiers are also split into their
+ * parts, so `createUserSession` matches "user" and "session".
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.match(/[A-Za-z0-9_$]+/g) ?? []) {
+    tokens.push(word.toLowerCase());
+    const parts = word
+      .split(/_+|\$|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/)
+      .filter(part => part.length > 1);
+    if (parts.length > 1) tokens.push(...parts.map(part => part.toLowerCase()));
+  }
+  return tokens;
+}
+
+/**
+ * The summary line with the most query terms, trimmed around the first match
+ */
+function bestSnippet(summary: string, queryTerms: string[]): string {
+  let best = "";
+  let bestHits = 0;
+
+  for (const line of summary.split("\n")) {
+    const trimmed = line.trim();
+    // Headings, table rules and the category line match too broadly to be useful
+    if (!trimmed || trimmed.startsWith("## ") || trimmed.startsWith("**Category:**") || /^\|[-| ]+\|$/.test(trimmed)) continue;
+    const tokens = new Set(tokenize(trimmed));
+    const hits = queryTerms.filter(term => tokens.has(term)).length;
+    if (hits > bestHits) {
+      best = trimmed;
+      bestHits = hits;
+    }
+  }
+
+  if (!best) {
+    best = summary.match(/\*\*Purpose:\*\*\s*(.+)/)?.[1].trim() ?? "";
+  }
+  if (best.length <= SNIPPET_CHARS) return best;
+
+  const lower = best.toLowerCase();
+  const first = Math.min(...queryTerms.map(term => lower.indexOf(term)).filter(i => i >= 0), best.length);
+  const start = Math.max(0, Math.min(first - 40, best.length - SNIPPET_CHARS));
+  return `${start > 0 ? "…" : ""}${best.slice(start, start + SNIPPET_CHARS)}${start + SNIPPET_CHARS < best.length ? "…" : ""}`;
+}
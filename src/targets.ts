@@ -0,0 +1,384 @@
+import { readFile, writeFile, mkdir, readdir, rm } from "fs/promises";
+import { existsSync } from "fs";
+import { resolve, dirname, basename } from "path";
+import { generateContextFinderAgent, generateFolderCliffnotes, type NotesOptions } from "./output.js";
+import { stripManifest } from "./manifest.js";
+import type { FolderInfo, TargetName } from "./types.js";
+
+// Codex stops reading AGENTS.md at 32 KiB (its default project_doc_max_bytes)
+const AGENTS_MAX_BYTES = 32 * 1024;
+
+// Cursor recommends keeping each rule under 500 lines
+const CURSOR_MAX_LINES = 500;
+
+// Copilot code review reads only the first 4,000 characters of the instructions
+const COPILOT_MAX_CHARS = 4000;
+
+// llms.txt lists these levels up front; deeper folders go under "Optional"
+const LLMS_MAIN_DEPTH = 2;
+
+const CURSOR_RULES_DIR = ".cursor/rules";
+const CURSOR_RULE_PREFIX = "cliffnotes";
+
+// Our section of a file people also edit by hand
+const MANAGED_START = "<!-- cliffnotes:start - generated by cliffnotes, edits inside are overwritten -->";
+const MANAGED_END = "<!-- cliffnotes:end -->";
+const MANAGED_PATTERN = /<!-- cliffnotes:start[^\n]*-->[\s\S]*?<!-- cliffnotes:end -->/;
+
+/**
+ * Everything an adapter renders from: the same notes as the CLIFFNOTES.md files
+ */
+export interface TargetContext {
+  rootDir: string;
+  folders: FolderInfo[];
+  notes: NotesOptions & { outputFile: string };
+}
+
+export interface TargetFile {
+  path: string;        // Relative to the project root
+  content: string;
+  managed?: boolean;   // Merged into an existing file between markers instead of replacing it
+}
+
+interface OutputTarget {
+  files: string;       // For help and logs
+  render(context: TargetContext, projectName: string): Promise<TargetFile[]>;
+  // Files of ours in this folder that weren't rendered this run are deleted
+  prune?: { dir: string; prefix: string };
+}
+
+const TARGETS: Record<TargetName, OutputTarget> = {
+  claude: {
+    files: ".claude/agents/context-finder.md",
+    render: async ({ notes }) => [
+      { path: ".claude/agents/context-finder.md", content: generateContextFinderAgent(notes.outputFile) },
+    ],
+  },
+  agents: {
+    files: "AGENTS.md",
+    render: async (context, projectName) => [await renderAgentsMd(context, projectName)],
+  },
+  cursor: {
+    files: `${CURSOR_RULES_DIR}/${CURSOR_RULE_PREFIX}*.mdc`,
+    render: async context => renderCursorRules(context),
+    prune: { dir: CURSOR_RULES_DIR, prefix: CURSOR_RULE_PREFIX },
+  },
+  copilot: {
+    files: ".github/copilot-instructions.md",
+    render: async context => [await renderCopilotInstructions(context)],
+  },
+  llms: {
+    files: "llms.txt, llms-full.txt",
+    render: async (context, projectName) => renderLlmsTxt(context, projectName),
+  },
+};
+
+export const TARGET_NAMES = Object.keys(TARGETS) as TargetName[];
+
+export function isTargetName(value: string): value is TargetName {
+  return value in TARGETS;
+}
+
+/**
+ * Renders and writes the selected targets. Returns the paths written.
+ */
+export async function writeTargets(names: TargetName[], context: TargetContext): Promise<string[]> {
+  const projectName = await readProjectName(context.rootDir);
+  const written: string[] = [];
+
+  for (const name of names) {
+    const target = TARGETS[name];
+    const files = await target.render(context, projectName);
+
+    for (const file of files) {
+      const path = resolve(context.rootDir, file.path);
+      await mkdir(dirname(path), { recursive: true });
+      const content = file.managed && existsSync(path)
+        ? mergeManagedSection(await readFile(path, "utf-8"), file.content)
+        : file.content;
+      await writeFile(path, content);
+      written.push(file.path);
+    }
+
+    if (target.prune) {
+      const dir = resolve(context.rootDir, target.prune.dir);
+      const keep = new Set(files.map(f => basename(f.path)));
+      for (const entry of existsSync(dir) ? await readdir(dir) : []) {
+        if (entry.startsWith(target.prune.prefix) && !keep.has(entry)) {
+          await rm(resolve(dir, entry), { force: true });
+        }
+      }
+    }
+  }
+
+  return written;
+}
+
+/**
+ * How to use the notes, shared by every adapter
+ */
+function navigationInstructions(outputFile: string): string {
+  return `This project has a \`${outputFile}\` in every folder with source files. Use them to find code before searching:
+
+1. Read the root \`${outputFile}\` for the architecture and the project structure.
+2. Open the \`${outputFile}\` of each folder relevant to the task. It lists the folder's files with their purpose, exports and dependencies, and describes its subfolders.
+3. Go deeper until you reach the files you need, then read those source files.
+
+The notes can lag behind the code: the source is the ground truth.`;
+}
+
+/**
+ * AGENTS.md: the instructions, architecture and a folder map, in our own
+ * section so hand-written instructions around it survive
+ */
+async function renderAgentsMd(context: TargetContext, projectName: string): Promise<TargetFile> {
+  const { outputFile, architecture, workspaces = [] } = context.notes;
+  const path = resolve(context.rootDir, "AGENTS.md");
+  const existing = existsSync(path) ? await readFile(path, "utf-8") : "";
+  const budget = AGENTS_MAX_BYTES - Buffer.byteLength(existing.replace(MANAGED_PATTERN, ""));
+
+  const head = [`## Codebase Notes
+
+${navigationInstructions(outputFile)}
+`];
+  if (architecture) {
+    head.push(`### Architecture
+
+${demoteHeadings(architecture.trim())}
+`);
+  }
+  if (workspaces.length > 0) {
+    head.push(`### Packages
+
+${workspaces.map(w => `- \`${w.name}\` - \`${w.path}/\`${w.dependsOn.length > 0 ? `, depends on ${w.dependsOn.map(d => `\`${d}\``).join(", ")}` : ""}`).join("\n")}
+`);
+  }
+
+  const content = fitLines(
+    `${head.join("\n")}\n### Folders\n\n`,
+    folderMap(context),
+    "",
+    text => Buffer.byteLength(managed(text)),
+    budget
+  );
+  const section = managed(content);
+  return { path: "AGENTS.md", content: existing ? section : `# ${projectName}\n\n${section}`, managed: true };
+}
+
+/**
+ * One always-applied rule with the instructions, plus a rule per folder
+ * that Cursor attaches when a file in that folder is in context
+ */
+function renderCursorRules(context: TargetContext): TargetFile[] {
+  const { outputFile, rollups = new Map() } = context.notes;
+  const files: TargetFile[] = [];
+
+  const rootLines = fitLines(
+    `${navigationInstructions(outputFile)}\n\n## Folders\n\n`,
+    folderMap(context),
+    "",
+    text => text.split("\n").length,
+    CURSOR_MAX_LINES - 6
+  );
+  files.push({
+    path: `${CURSOR_RULES_DIR}/${CURSOR_RULE_PREFIX}.mdc`,
+    content: `---
+description: How to navigate this codebase with its ${outputFile} notes
+globs:
+alwaysApply: true
+---
+
+${rootLines}`,
+  });
+
+  for (const folder of context.folders) {
+    if (folder.path === "." || folder.files.length === 0) continue;
+    const rollup = rollups.get(folder.path);
+    const description = rollup?.description ?? `${folder.files.length} files`;
+
+    const head = `# ${folder.path}
+
+${rollup ? `${rollup.description}\n\n` : ""}Full notes: \`${folder.path}/${outputFile}\`
+
+## Files
+
+`;
+    const fileLines = folder.files.map(f => `- \`${fileName(f.relativePath)}\` (${f.category}) - ${oneLine(f.notes.purpose)}`);
+    const subfolders = folder.subfolders.length > 0
+      ? `\n## Subfolders\n\n${folder.subfolders.map(sub => `- \`${sub}/\` - read \`${folder.path}/${sub}/${outputFile}\``).join("\n")}\n`
+      : "";
+    const body = fitLines(head, fileLines, subfolders, text => text.split("\n").length, CURSOR_MAX_LINES - 6);
+
+    files.push({
+      path: `${CURSOR_RULES_DIR}/${CURSOR_RULE_PREFIX}--${folder.path.replace(/\//g, "--")}.mdc`,
+      content: `---
+description: ${oneLine(`Notes for ${folder.path}/: ${description}`)}
+globs: ${folder.path}/*
+alwaysApply: false
+---
+
+${body}`,
+    });
+  }
+
+  return files;
+}
+
+/**
+ * The instructions and the top of the folder map, within what Copilot reads
+ */
+async function renderCopilotInstructions(context: TargetContext): Promise<TargetFile> {
+  const { outputFile } = context.notes;
+  const path = ".github/copilot-instructions.md";
+  const existing = existsSync(resolve(context.rootDir, path))
+    ? (await readFile(resolve(context.rootDir, path), "utf-8")).replace(MANAGED_PATTERN, "")
+    : "";
+
+  const content = fitLines(
+    `## Codebase Notes\n\n${navigationInstructions(outputFile)}\n\n### Folders\n\n`,
+    folderMap(context),
+    "",
+    text => managed(text).length,
+    COPILOT_MAX_CHARS - existing.length
+  );
+  return { path, content: managed(content), managed: true };
+}
+
+/**
+ * llms.txt (https://llmstxt.org): a title, a summary, and links to each
+ * folder's notes. llms-full.txt inlines every folder's notes.
+ */
+function renderLlmsTxt(context: TargetContext, projectName: string): TargetFile[] {
+  const { outputFile, rollups = new Map() } = context.notes;
+  const root = context.folders.find(f => f.path === ".");
+  const summary = rollups.get(".")?.description
+    ?? `Codebase notes: a ${outputFile} per folder describing its files and subfolders.`;
+
+  const link = (folder: FolderInfo) => {
+    const notesPath = folder.path === "." ? outputFile : `${folder.path}/${outputFile}`;
+    const description = rollups.get(folder.path)?.description ?? `${folder.files.length} files`;
+    return `- [${folder.path === "." ? "Project root" : `${folder.path}/`}](${notesPath}): ${oneLine(description)}`;
+  };
+  const main = context.folders.filter(f => depthOf(f.path) <= LLMS_MAIN_DEPTH);
+  const optional = context.folders.filter(f => depthOf(f.path) > LLMS_MAIN_DEPTH);
+
+  const llms = [`# ${projectName}
+
+> ${oneLine(summary)}
+
+Each folder's ${outputFile} lists its files with their purpose, exports and dependencies. Start at the root and follow the folders relevant to the task.
+
+## Folders
+
+${main.map(link).join("\n")}
+`];
+  if (optional.length > 0) {
+    llms.push(`## Optional
+
+${optional.map(link).join("\n")}
+`);
+  }
+
+  const full = [`# ${projectName}
+
+> ${oneLine(summary)}
+`];
+  for (const folder of context.folders) {
+    const notes = stripManifest(generateFolderCliffnotes(folder, folder === root, context.notes)).trim();
+    full.push(`---
+
+<!-- ${folder.path === "." ? outputFile : `${folder.path}/${outputFile}`} -->
+
+${notes}
+`);
+  }
+
+  return [
+    { path: "llms.txt", content: llms.join("\n") },
+    { path: "llms-full.txt", content: full.join("\n") },
+  ];
+}
+
+/**
+ * Every folder as an indented bullet with its summary, parents before children
+ */
+function folderMap({ folders, notes }: TargetContext): string[] {
+  const { outputFile, rollups = new Map() } = notes;
+  return folders
+    .filter(f => f.path !== ".")
+    .map(folder => {
+      const description = rollups.get(folder.path)?.description;
+      const indent = "  ".repeat(depthOf(folder.path) - 1);
+      return `${indent}- \`${folder.path}/${outputFile}\`${description ? ` - ${oneLine(description)}` : ""}`;
+    });
+}
+
+/**
+ * Adds lines until the limit, dropping the deepest ones first so the map
+ * stays a tree, and says how many were left out
+ */
+function fitLines(
+  head: string,
+  lines: string[],
+  tail: string,
+  measure: (text: string) => number,
+  limit: number
+): string {
+  const render = (kept: string[], dropped: number) =>
+    `${head}${kept.join("\n")}${dropped > 0 ? `\n- ...and ${dropped} more, see the notes files` : ""}\n${tail}`;
+
+  let kept = lines;
+  while (kept.length > 0 && measure(render(kept, lines.length - kept.length)) > limit) {
+    const deepest = Math.max(...kept.map(indentOf));
+    const index = kept.map(indentOf).lastIndexOf(deepest);
+    kept = kept.filter((_, i) => i !== index);
+  }
+  return render(kept, lines.length - kept.length);
+}
+
+function mergeManagedSection(existing: string, section: string): string {
+  if (MANAGED_PATTERN.test(existing)) {
+    return existing.replace(MANAGED_PATTERN, () => section.trim());
+  }
+  return `${existing.trimEnd()}\n\n${section}`;
+}
+
+function managed(content: string): string {
+  return `${MANAGED_START}\n${content.trim()}\n${MANAGED_END}\n`;
+}
+
+/**
+ * Headings in the architecture section moved under our own "##"
+ */
+function demoteHeadings(markdown: string): string {
+  return markdown.replace(/^(#{1,4}) /gm, "$1## ");
+}
+
+/**
+ * The root package.json's name, else the directory name
+ */
+export async function readProjectName(rootDir: string): Promise<string> {
+  try {
+    const pkg = JSON.parse(await readFile(resolve(rootDir, "package.json"), "utf-8"));
+    if (typeof pkg.name === "string" && pkg.name) return pkg.name;
+  } catch {
+    // No package.json, or not one we can read
+  }
+  return basename(rootDir);
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function depthOf(path: string): number {
+  return path === "." ? 0 : path.split("/").length;
+}
+
+function fileName(relativePath: string): string {
+  return relativePath.slice(relativePath.lastIndexOf("/") + 1);
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,22 @@
+import type { Tiktoken } from "js-tiktoken/lite";
+
+let encoder: Promise<Tiktoken> | undefined;
+
+/**
+ * Counts tokens with the o200k_base BPE. It isn't every provider's exact
+ * tokenizer, but it tracks them far more closely than a character count.
+ * The rank table is large, so it is only loaded the first time it's needed.
+ */
+export async function countTokens(text: string): Promise<number> {
+  encoder ??= loadEncoder();
+  // Special-token strings inside source files are just text to us
+  return (await encoder).encode(text, [], []).length;
+}
+
+async function loadEncoder(): Promise<Tiktoken> {
+  const [{ Tiktoken }, { default: ranks }] = await Promise.all([
+    import("js-tiktoken/lite"),
+    import("js-tiktoken/ranks/o200k_base"),
+  ]);
+  return new Tiktoken(ranks);
+}
@@ -2,17 +2,60 @@ export interface FileAnalysis {
   path: string;
   relativePath: string;
   category: FileCategory;
-  summary: string;
+  notes: FileNotes;
   hash: string;
+  model: string;          // Model that produced the summary, e.g. "anthropic/claude-opus-4-5-20251101"
   tokens: {
     input: number;
     output: number;
   };
 }
 
-export type FileCategory =
-  | "schema"      // Prisma, Drizzle, database schemas
-  | "router"      // tRPC, Express, Next.js API routes
+/**
+ * The structured analysis of one file. Markdown is rendered from this.
+ */
+export interface FileNotes {
+  purpose: string;                // One sentence
+  exports: ExportNote[];
+  endpoints: EndpointNote[];
+  props: PropNote[];
+  envVars: EnvVarNote[];
+  details: string;                // Category-specific markdown: full schemas, type definitions, migration steps
+  searchTerms: string[];
+}
+
+export interface ExportNote {
+  name: string;
+  kind: string;                   // function, class, type, const, component, hook...
+  signature: string;
+  description: string;
+}
+
+export interface EndpointNote {
+  method: string;                 // HTTP method, or query/mutation for tRPC and GraphQL
+  path: string;                   // URL path or procedure name
+  input: string;
+  output: string;
+  description: string;
+  auth: string;                   // Empty when public
+}
+
+export interface PropNote {
+  name: string;
+  type: string;
+  required: boolean;
+  description: string;
+}
+
+export interface EnvVarNote {
+  name: string;
+  description: string;
+}
+
+export type BuiltinCategory =
+  | "schema"      // Prisma, Drizzle, ORM models, GraphQL SDL
+  | "migration"   // SQL and ORM migrations
+  | "router"      // tRPC, Express, Next.js, FastAPI, Go/Rust handlers, OpenAPI specs
   | "component"   // React/Vue/Svelte components
   | "hook"        // React hooks
   | "util"        // Utility functions
@@ -22,6 +65,35 @@ export type FileCategory =
   | "test"        // Test files
   | "other";
 
+// Built-ins plus any category declared in config (`string & {}` keeps editor completion)
+export type FileCategory = BuiltinCategory | (string & {});
+
+/**
+ * A category declared in config. Using a built-in name overrides that
+ * category's label, order, instructions or template.
+ */
+export interface CategoryDefinition {
+  name: string;
+  label?: string;          // Section heading in the notes (default: the name)
+  order?: number;          // Sort position among sections; built-ins use 0-100 in steps of 10
+  paths?: string[];        // Gitignore-style patterns matched against the relative path
+  content?: string[];      // Regular expressions matched against the file content
+  instructions?: string;   // Replaces the analysis instructions for this category
+  template?: string;       // Replaces the format template for this category
+}
+
+export type Language =
+  | "typescript"
+  | "javascript"
+  | "python"
+  | "go"
+  | "rust"
+  | "sql"
+  | "prisma"
+  | "graphql"
+  | "openapi"       // OpenAPI/Swagger spec in YAML or JSON
+  | "other";
+
 export interface FolderInfo {
   path: string;           // Relative path from root (e.g., "src/routers")
   name: string;           // Folder name (e.g., "routers")
@@ -37,9 +109,27 @@ export interface FolderTree {
 
 export interface CacheEntry {
   hash: string;
-  summary: string;
+  notes: FileNotes;       // Entries from before structured output are converted on load
   category: FileCategory;
   analyzedAt: string;
+  model?: string;         // Missing on entries written before model selection existed
+  tokens: {
+    input: number;
+    output: number;
+  };
+  chunks?: string[];      // Chunk hashes, for files analyzed in chunks
+  definitionHash?: string; // Fingerprint of the config category definition used; absent for plain built-ins
+  fingerprint?: string;   // Prompt template, category and model the notes came from; absent on entries from v1 or the committed notes
+  source?: "committed";   // Rebuilt from the committed notes: shown as-is by scoped runs, never a cache hit
+}
+
+/**
+ * Notes for one chunk of a large file, merged into the file's summary
+ */
+export interface ChunkEntry {
+  summary: string;
+  analyzedAt: string;
+  model: string;
   tokens: {
     input: number;
     output: number;
@@ -48,7 +138,38 @@ export interface CacheEntry {
 
 export interface CacheData {
   version: number;
-  entries: Record<string, CacheEntry>;
+  files: Record<string, string>;          // Path -> key of its entry, so identical files share one
+  entries: Record<string, CacheEntry>;    // Keyed by content hash and fingerprint (see entryKey)
+  rollups?: Record<string, RollupEntry>;  // Keyed by folder path
+  architecture?: ArchitectureEntry;
+  chunks?: Record<string, ChunkEntry>;     // Keyed by chunk hash
+}
+
+export interface ArchitectureEntry {
+  inputHash: string;      // Hash of the prompt inputs (folder tree, rollups, file purposes)
+  content: string;        // Markdown body of the root "Architecture" section
+  analyzedAt: string;
+  model: string;
+  tokens: {
+    input: number;
+    output: number;
+  };
+}
+
+export interface FolderRollup {
+  description: string;    // One or two sentences on the folder's responsibility
+  entryPoints: string[];  // Files (relative to the folder) to start reading from
+  searchTerms: string[];
+}
+
+export interface RollupEntry extends FolderRollup {
+  inputHash: string;      // Hash of the file summaries and child rollups it was built from
+  analyzedAt: string;
+  model: string;
+  tokens: {
+    input: number;
+    output: number;
+  };
 }
 
 export interface AnalysisResult {
@@ -58,10 +179,135 @@ export interface AnalysisResult {
   analyzed: number;
 }
 
+/**
+ * Anything that spent tokens on a model - file analyses, folder rollups
+ */
+export interface UsageRecord {
+  model: string;
+  tokens: {
+    input: number;
+    output: number;
+  };
+}
+
+export interface AnalysisFailure {
+  relativePath: string;
+  error: string;         // Message of the last error
+  attempts: number;      // Calls made before giving up
+  rateLimited: boolean;  // Last error was a 429/529
+}
+
 export interface CostSummary {
   inputTokens: number;
   outputTokens: number;
   estimatedCost: number; // in USD
+  byModel: Record<string, ModelCost>;
+}
+
+export interface ModelCost {
+  summaries: number;     // File summaries and folder rollups produced by this model
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCost: number; // in USD
+  priced: boolean;       // false when the model isn't in the pricing table
+}
+
+export type ProviderName =
+  | "anthropic"          // Anthropic API
+  | "openai"             // api.openai.com
+  | "openai-compatible"  // Any OpenAI-compatible endpoint (requires baseURL)
+  | "ollama"             // Local Ollama server
+  | "llamacpp";          // Local llama.cpp server
+
+export interface ModelPricing {
+  inputPer1M: number;    // USD per 1M input tokens
+  outputPer1M: number;   // USD per 1M output tokens
+}
+
+export interface ModelConfig {
+  provider: ProviderName;
+  model: string;
+  baseURL?: string;      // Overrides the provider's default endpoint
+  apiKeyEnv?: string;    // Env var holding the API key (defaults per provider)
+  pricing?: ModelPricing; // Pricing for models missing from the built-in table
+}
+
+/**
+ * The machine-readable notes written to cliffnotes.index.json(l).
+ * A stable contract for tools; the cache format is internal.
+ */
+export interface NotesIndex {
+  version: number;
+  run: IndexRun;
+  folders: IndexedFolder[];
+  files: IndexedFile[];
+}
+
+export interface IndexRun {
+  generatedAt: string;
+  models: string[];        // Every model that produced a summary in this index
+  cost: CostSummary;
+  stats: { files: number; analyzed: number; cached: number; failed: number };
+  outputFile: string;      // Name of the per-folder notes file
+  architecture?: string;   // Markdown of the root Architecture section
+}
+
+export interface IndexedFolder {
+  path: string;            // "." for the root
+  name: string;
+  parent: string | null;
+  children: string[];      // Paths of subfolders with notes
+  depth: number;
+  files: string[];         // Paths of files directly in this folder
+  notesFile: string;       // Path of this folder's CLIFFNOTES.md
+  rollup?: FolderRollup;
+}
+
+export interface IndexedFile {
+  path: string;            // Relative to the project root
+  folder: string;
+  category: FileCategory;
+  hash: string;
+  model: string;
+  tokens: { input: number; output: number };
+  summary: string;         // Rendered markdown, as in CLIFFNOTES.md
+  notes: FileNotes;
+}
+
+/**
+ * How the notes changed in one run, written to cliffnotes.changes.json
+ */
+export interface NotesChangelog {
+  version: number;
+  generatedAt: string;
+  added: ChangedFile[];
+  removed: ChangedFile[];
+  resummarized: ResummarizedFile[];
+}
+
+export interface ChangedFile {
+  path: string;
+  category: FileCategory;
+  purpose: string;
+  exports: string[];       // Signatures
+  endpoints: string[];     // "METHOD path"
+}
+
+export interface ResummarizedFile {
+  path: string;
+  sourceChanged: boolean;  // false when only the summary changed (new model, prompt or category)
+  purpose?: { before: string; after: string };
+  category?: { before: FileCategory; after: FileCategory };
+  exports: {
+    added: string[];       // Signatures
+    removed: string[];
+    changed: { name: string; before: string; after: string }[];
+  };
+  endpoints: {
+    added: string[];       // "METHOD path"
+    removed: string[];
+    changed: { endpoint: string; fields: string[] }[];
+  };
 }
 
 export interface CliffnotesConfig {
@@ -70,6 +316,44 @@ export interface CliffnotesConfig {
   exclude: string[];
   outputFile: string;
   cacheFile: string;
+  folders: Record<string, FolderOverride>; // Keyed by folder path relative to root
+  model: ModelConfig;
+  maxRetries: number;    // Retries per file for rate limits and transient errors
+  chunkTokens: number;   // Files above this many tokens are analyzed in chunks
+  notesTokens: number;   // Ceiling per CLIFFNOTES.md; larger folders are split into category pages
+  rollups: boolean;      // Summarize each folder for its parent's Subfolders list
+  architecture: boolean; // Synthesize a project-wide Architecture section at the root
+  graph: boolean;        // Add static import edges to the notes and write cliffnotes.graph.json
+  categories: CategoryDefinition[]; // Custom categories and built-in overrides, matched in order
+  index: "json" | "jsonl" | false;  // Format of the machine-readable index, or false to skip it
+  changelog: boolean;    // Write CLIFFNOTES-CHANGES.md and cliffnotes.changes.json for each run
+  targets: TargetName[]; // Assistant-specific files rendered from the notes
+}
+
+export type TargetName =
+  | "claude"             // .claude/agents/context-finder.md
+  | "agents"             // AGENTS.md
+  | "cursor"             // .cursor/rules/*.mdc
+  | "copilot"            // .github/copilot-instructions.md
+  | "llms";              // llms.txt and llms-full.txt
+
+/**
+ * A package in a monorepo, from package.json workspaces, pnpm-workspace.yaml,
+ * lerna.json or an nx/turbo layout
+ */
+export interface Workspace {
+  name: string;
+  path: string;              // Folder relative to the project root
+  description?: string;
+  entryPoints: string[];     // From main/module/types/bin/exports, relative to the package
+  scripts: Record<string, string>;
+  dependsOn: string[];       // Names of sibling workspaces it depends on
+}
+
+export interface FolderOverride {
+  include?: string[];  // Extra globs, relative to the folder
+  exclude?: string[];  // Extra excludes, relative to the folder
+  skip?: boolean;      // Leave the folder and everything below it out of the notes
 }
 
 export const DEFAULT_CONFIG: CliffnotesConfig = {
@@ -79,6 +363,16 @@ export const DEFAULT_CONFIG: CliffnotesConfig = {
     "**/*.tsx",
     "**/*.js",
     "**/*.jsx",
+    "**/*.py",
+    "**/*.go",
+    "**/*.rs",
+    "**/*.sql",
+    "**/*.prisma",
+    "**/*.graphql",
+    "**/*.gql",
+    "**/openapi.{yaml,yml,json}",
+    "**/swagger.{yaml,yml,json}",
+    "**/*.openapi.{yaml,yml,json}",
   ],
   exclude: [
     "**/node_modules/**",
@@ -90,7 +384,33 @@ export const DEFAULT_CONFIG: CliffnotesConfig = {
     "**/*.spec.*",
     "**/*.d.ts",
     "**/generated/**",
+    "**/__pycache__/**",
+    "**/.venv/**",
+    "**/venv/**",
+    "**/site-packages/**",
+    "**/vendor/**",
+    "**/target/**",
+    "**/test_*.py",
+    "**/*_test.py",
+    "**/*_test.go",
+    "**/*.pb.go",
+    "**/*_pb2.py",
   ],
   outputFile: "CLIFFNOTES.md",
   cacheFile: ".cliffnotes-cache.json",
+  folders: {},
+  model: {
+    provider: "anthropic",
+    model: "claude-opus-4-5-20251101",
+  },
+  maxRetries: 5,
+  chunkTokens: 20000,
+  notesTokens: 20000,
+  rollups: true,
+  architecture: true,
+  graph: true,
+  categories: [],
+  index: "json",
+  changelog: true,
+  targets: ["claude"],
 };
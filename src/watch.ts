@@ -0,0 +1,257 @@
+import { watch } from "fs";
+import { analyzeFiles, calculateCost, type AnalyzeFilesOptions } from "./analyzer.js";
+import { collectGarbage, deleteCacheEntry, saveCache } from "./cache.js";
+import { buildFolderTree, discoverFiles, folderAncestors, getFoldersWithContent } from "./discovery.js";
+import { generateFolderRollups } from "./rollup.js";
+import { generateArchitectureOverview } from "./architecture.js";
+import { buildImportGraph, writeImportGraph, GRAPH_FILE, type ImportGraph } from "./graph.js";
+import { buildNotesIndex, writeNotesIndex, INDEX_FILE, INDEX_JSONL_FILE } from "./export.js";
+import { isNotesPage, removeCliffnotes, writeAllCliffnotes } from "./output.js";
+import { getModelId } from "./providers.js";
+import type { Categories } from "./categories.js";
+import type { AnalysisFailure, ArchitectureEntry, CacheData, CliffnotesConfig, FileAnalysis, Workspace } from "./types.js";
+
+// Editors write a file in several steps; wait for them to settle
+const DEBOUNCE_MS = 300;
+
+export interface WatchOptions {
+  rootDir: string;
+  config: CliffnotesConfig;
+  categories: Categories;
+  cache: CacheData;
+  cachePath: string;
+  analyses: FileAnalysis[];   // From the run that came before watching
+  graph?: ImportGraph;
+  workspaces?: Workspace[];
+  settingsFor?: AnalyzeFilesOptions["settingsFor"];
+  signal: AbortSignal;        // Abort to stop watching; an update in progress finishes first
+  onChange?: (paths: string[]) => void;
+  onUpdate?: (update: WatchUpdate) => void;
+  onError?: (err: Error) => void;
+}
+
+/**
+ * What one debounced batch of changes did
+ */
+export interface WatchUpdate {
+  analyzed: string[];        // Files whose content changed and were re-analyzed
+  removed: string[];         // Files deleted, or renamed away
+  failures: AnalysisFailure[];
+  foldersWritten: string[];
+  foldersRemoved: string[];  // Folders left without files, whose notes were deleted
+}
+
+/**
+ * Watches the project and keeps the notes current. Each batch re-analyzes
+ * only files whose hash changed and rewrites only the notes of their folders,
+ * those folders' ancestors, and folders whose import links changed.
+ * Resolves once `signal` aborts.
+ */
+export async function watchProject(options: WatchOptions): Promise<void> {
+  const { rootDir, config, signal } = options;
+  const state = {
+    analyses: new Map(options.analyses.map(a => [a.relativePath, a])),
+    graph: options.graph,
+  };
+
+  // Our own output changes on every update; reacting to it would loop
+  const ownFiles = new Set([config.cacheFile, GRAPH_FILE, INDEX_FILE, INDEX_JSONL_FILE]);
+  const isOwnOutput = (path: string) =>
+    ownFiles.has(path)
+    || path === config.outputFile
+    || path.endsWith(`/${config.outputFile}`)
+    || isNotesPage(path, config.outputFile)
+    || path.endsWith(".tmp")
+    || /(^|\/)(\.git|node_modules)(\/|$)/.test(path);
+
+  let pending = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running: Promise<void> = Promise.resolve();
+
+  const flush = () => {
+    const paths = [...pending];
+    pending = new Set();
+    // One update at a time; changes that land meanwhile form the next batch
+    running = running.then(async () => {
+      if (signal.aborted) return;
+      try {
+        options.onChange?.(paths);
+        const update = await applyChanges(options, state, paths);
+        if (update) options.onUpdate?.(update);
+      } catch (err) {
+        options.onError?.(err as Error);
+      }
+    });
+  };
+
+  const watcher = watch(rootDir, { recursive: true }, (_event, filename) => {
+    if (!filename) return;
+    const path = filename.toString().replace(/\\/g, "/");
+    if (isOwnOutput(path)) return;
+    pending.add(path);
+    clearTimeout(timer);
+    timer = setTimeout(flush, DEBOUNCE_MS);
+  });
+
+  await new Promise<void>(resolve => {
+    if (signal.aborted) resolve();
+    else signal.addEventListener("abort", () => resolve(), { once: true });
+  });
+
+  clearTimeout(timer);
+  watcher.close();
+  await running;
+}
+
+/**
+ * Brings the notes up to date after changes to `paths`. Discovery decides
+ * what exists, so renames, deletes and new folders are all picked up here;
+ * the cache decides what actually changed. Returns undefined when nothing did.
+ */
+async function applyChanges(
+  options: WatchOptions,
+  state: { analyses: Map<string, FileAnalysis>; graph?: ImportGraph },
+  paths: string[]
+): Promise<WatchUpdate | undefined> {
+  const { rootDir, config, categories, cache, signal, workspaces, settingsFor } = options;
+
+  const files = await discoverFiles(rootDir, config);
+  const current = new Set(files.map(f => f.relative));
+  const previousFolders = new Set(getFoldersWithContent(buildFolderTree([...state.analyses.values()])).map(f => f.path));
+
+  // Deleted or renamed away: drop from the notes and the cache
+  const removed = [...state.analyses.keys()].filter(path => !current.has(path));
+  for (const path of removed) {
+    state.analyses.delete(path);
+    deleteCacheEntry(cache, path);
+  }
+
+  // Changed paths may be files or whole folders (a folder renamed into place); new files
+  // show up in discovery even if their event was missed. Unchanged hashes come from the cache.
+  const touched = (relativePath: string) =>
+    !state.analyses.has(relativePath)
+    || paths.some(path => relativePath === path || relativePath.startsWith(`${path}/`));
+  const result = await analyzeFiles(files.filter(f => touched(f.relative)), cache, {
+    concurrency: config.concurrency,
+    model: config.model,
+    maxRetries: config.maxRetries,
+    chunkTokens: config.chunkTokens,
+    categories,
+    settingsFor,
+    signal,
+  });
+
+  // A file that fails keeps its old notes (or stays out) until it can be analyzed
+  const updated: string[] = [];
+  for (const analysis of result.analyses) {
+    const before = state.analyses.get(analysis.relativePath);
+    if (!before || before.hash !== analysis.hash || before.category !== analysis.category) {
+      updated.push(analysis.relativePath);
+    }
+    state.analyses.set(analysis.relativePath, analysis);
+  }
+
+  if (updated.length === 0 && removed.length === 0 && result.failures.length === 0) return undefined;
+  const changed = new Set([...updated, ...removed]);
+
+  const analyses = [...state.analyses.values()].sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+  const folders = getFoldersWithContent(buildFolderTree(analyses));
+
+  // Imports of changed files can change "Used by" in folders that are otherwise untouched
+  const graph = config.graph ? await buildImportGraph(rootDir, files) : undefined;
+  if (graph && state.graph) {
+    for (const path of changedLinks(state.graph, graph)) changed.add(path);
+  }
+  state.graph = graph;
+
+  const affected = new Set<string>();
+  for (const path of changed) {
+    for (const folder of folderAncestors(path)) affected.add(folder);
+  }
+  const folderPaths = new Set(folders.map(f => f.path));
+  const foldersRemoved = [...previousFolders].filter(path => !folderPaths.has(path));
+
+  // Rollups and the architecture are cached by their inputs, so only affected ones are regenerated
+  const rollups = config.rollups
+    ? (await generateFolderRollups(folders, cache, {
+        model: config.model,
+        concurrency: config.concurrency,
+        maxRetries: config.maxRetries,
+        signal,
+      })).rollups
+    : new Map();
+  let architectureEntry: ArchitectureEntry | undefined;
+  if (config.architecture) {
+    try {
+      architectureEntry = (await generateArchitectureOverview(folders, rollups, cache, {
+        model: config.model,
+        maxRetries: config.maxRetries,
+        signal,
+      })).entry;
+    } catch {
+      // Keep the previous overview rather than dropping the section mid-session
+      architectureEntry = cache.architecture;
+    }
+  }
+  const architecture = architectureEntry?.content;
+
+  const cost = calculateCost(
+    [...analyses, ...rollups.values(), ...(architectureEntry ? [architectureEntry] : [])],
+    config.model.pricing ? { [getModelId(config.model)]: config.model.pricing } : undefined
+  );
+  const stats = { cached: analyses.length - result.analyzed, analyzed: result.analyzed };
+  const written = folders.filter(f => affected.has(f.path)).map(f => f.path);
+
+  await writeAllCliffnotes(
+    rootDir,
+    folders,
+    cost,
+    stats,
+    { outputFile: config.outputFile, rollups, architecture, graph, categories, workspaces, maxTokens: config.notesTokens },
+    new Set(written)
+  );
+  await removeCliffnotes(rootDir, foldersRemoved, config.outputFile);
+
+  if (graph) {
+    await writeImportGraph(rootDir, graph);
+  }
+  if (config.index) {
+    const index = buildNotesIndex({
+      folders,
+      cost,
+      stats: { ...stats, failed: result.failures.length },
+      outputFile: config.outputFile,
+      rollups,
+      architecture,
+    });
+    await writeNotesIndex(rootDir, index, config.index);
+  }
+  // Edits and deletions leave entries no path uses; drop them so the cache doesn't grow all
+  // session, unless a failed file's finished chunks are among them
+  if (result.failures.length === 0) collectGarbage(cache);
+  await saveCache(options.cachePath, cache);
+
+  return {
+    analyzed: updated.sort(),
+    removed: removed.sort(),
+    failures: result.failures,
+    foldersWritten: written,
+    foldersRemoved,
+  };
+}
+
+/**
+ * Files whose imports or importers differ between two graphs
+ */
+function changedLinks(before: ImportGraph, after: ImportGraph): string[] {
+  const changed: string[] = [];
+  for (const key of ["imports", "importedBy"] as const) {
+    const paths = new Set([...before[key].keys(), ...after[key].keys()]);
+    for (const path of paths) {
+      const a = before[key].get(path) ?? [];
+      const b = after[key].get(path) ?? [];
+      if (a.length !== b.length || a.some((p, i) => p !== b[i])) changed.push(path);
+    }
+  }
+  return changed;
+}
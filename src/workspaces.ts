@@ -0,0 +1,213 @@
+import { readFile } from "fs/promises";
+import { existsSync } from "fs";
+import { resolve, posix } from "path";
+import { glob } from "glob";
+import type { Workspace } from "./types.js";
+
+// turbo doesn't declare packages itself; this is the layout its templates use
+const TURBO_LAYOUT = ["apps/*", "packages/*"];
+
+// Default nx layout when nx.json has no workspaceLayout
+const NX_LAYOUT = { appsDir: "apps", libsDir: "libs" };
+
+const MAX_ENTRY_POINTS = 8;
+
+interface PackageJson {
+  name?: string;
+  description?: string;
+  main?: string;
+  module?: string;
+  types?: string;
+  typings?: string;
+  bin?: string | Record<string, string>;
+  exports?: unknown;
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  workspaces?: string[] | { packages?: string[] };
+}
+
+interface NxProject {
+  name?: string;
+  sourceRoot?: string;
+  targets?: Record<string, { executor?: string; command?: string; options?: { main?: string; command?: string } }>;
+  implicitDependencies?: string[];
+}
+
+/**
+ * Finds the packages of a monorepo: package.json `workspaces` (npm, yarn,
+ * bun), pnpm-workspace.yaml, lerna.json, then nx and turbo layouts. Returns
+ * an empty list for a single-package project.
+ */
+export async function detectWorkspaces(rootDir: string): Promise<Workspace[]> {
+  const patterns = await workspacePatterns(rootDir);
+  if (patterns.length === 0) return [];
+
+  const include = patterns.filter(p => !p.startsWith("!")).map(trimPattern);
+  const exclude = patterns.filter(p => p.startsWith("!")).map(p => trimPattern(p.slice(1)));
+
+  const markers = await glob(
+    include.flatMap(p => [`${p}/package.json`, `${p}/project.json`]),
+    {
+      cwd: rootDir,
+      ignore: ["**/node_modules/**", ...exclude.flatMap(p => [p, `${p}/*.json`])],
+      posix: true,
+    }
+  );
+  const dirs = [...new Set(markers.map(m => posix.dirname(m.replace(/\\/g, "/"))))]
+    .filter(dir => dir !== ".")
+    .sort();
+
+  const found: (Workspace & { deps: string[] })[] = [];
+  for (const dir of dirs) {
+    const workspace = await readWorkspace(rootDir, dir);
+    if (workspace) found.push(workspace);
+  }
+
+  // Only dependencies on other packages of this repo are worth mapping
+  const names = new Set(found.map(w => w.name));
+  return found.map(({ deps, ...workspace }) => ({
+    ...workspace,
+    dependsOn: [...new Set(deps)].filter(dep => names.has(dep) && dep !== workspace.name).sort(),
+  }));
+}
+
+/**
+ * The workspace a name or folder refers to, for `--workspace`
+ */
+export function findWorkspace(workspaces: Workspace[], nameOrPath: string): Workspace | undefined {
+  const path = nameOrPath.replace(/\\/g, "/").replace(/^\.\//, "").replace(/\/+$/, "");
+  return workspaces.find(w => w.name === nameOrPath) ?? workspaces.find(w => w.path === path);
+}
+
+/**
+ * The innermost workspace containing a file or folder
+ */
+export function workspaceOf(workspaces: Workspace[], relativePath: string): Workspace | undefined {
+  let best: Workspace | undefined;
+  for (const workspace of workspaces) {
+    const inside = relativePath === workspace.path || relativePath.startsWith(workspace.path + "/");
+    if (inside && (!best || workspace.path.length > best.path.length)) best = workspace;
+  }
+  return best;
+}
+
+async function workspacePatterns(rootDir: string): Promise<string[]> {
+  const pkg = await readJson<PackageJson>(resolve(rootDir, "package.json"));
+  const declared = Array.isArray(pkg?.workspaces) ? pkg.workspaces : pkg?.workspaces?.packages;
+  if (declared && declared.length > 0) return declared;
+
+  const pnpmFile = resolve(rootDir, "pnpm-workspace.yaml");
+  if (existsSync(pnpmFile)) {
+    const packages = parsePnpmPackages(await readFile(pnpmFile, "utf-8"));
+    if (packages.length > 0) return packages;
+  }
+
+  const lerna = await readJson<{ packages?: string[] }>(resolve(rootDir, "lerna.json"));
+  if (lerna) return lerna.packages ?? ["packages/*"];
+
+  const nx = await readJson<{ workspaceLayout?: { appsDir?: string; libsDir?: string } }>(resolve(rootDir, "nx.json"));
+  if (nx) {
+    const { appsDir, libsDir } = { ...NX_LAYOUT, ...nx.workspaceLayout };
+    // nx projects can nest (apps/shop/e2e), so match at any depth
+    return [...new Set([appsDir, libsDir])].map(dir => `${dir}/**`);
+  }
+
+  if (existsSync(resolve(rootDir, "turbo.json"))) return TURBO_LAYOUT;
+  return [];
+}
+
+/**
+ * Reads the `packages:` list of pnpm-workspace.yaml. It's a plain list of
+ * globs, so a line scan does without a YAML parser.
+ */
+function parsePnpmPackages(yaml: string): string[] {
+  const packages: string[] = [];
+  let inPackages = false;
+  for (const raw of yaml.split("\n")) {
+    const line = raw.replace(/\s+#.*$/, "").trimEnd();
+    if (!line.trim() || line.trim().startsWith("#")) continue;
+
+    if (/^\S/.test(line)) {
+      inPackages = /^packages\s*:/.test(line);
+      // Flow style: packages: ['apps/*', 'packages/*']
+      const flow = line.match(/^packages\s*:\s*\[(.*)\]\s*$/);
+      if (flow) packages.push(...flow[1].split(",").map(unquote).filter(Boolean));
+      continue;
+    }
+
+    const item = line.match(/^\s+-\s*(.+)$/);
+    if (inPackages && item) packages.push(unquote(item[1]));
+  }
+  return packages;
+}
+
+async function readWorkspace(rootDir: string, dir: string): Promise<(Workspace & { deps: string[] }) | undefined> {
+  const pkg = await readJson<PackageJson>(resolve(rootDir, dir, "package.json"));
+  const project = await readJson<NxProject>(resolve(rootDir, dir, "project.json"));
+  if (!pkg && !project) return undefined;
+
+  const scripts: Record<string, string> = { ...pkg?.scripts };
+  for (const [target, config] of Object.entries(project?.targets ?? {})) {
+    scripts[target] ??= config.command ?? config.options?.command ?? config.executor ?? "";
+  }
+
+  const entryPoints = [
+    pkg?.main,
+    pkg?.module,
+    pkg?.types ?? pkg?.typings,
+    ...(typeof pkg?.bin === "string" ? [pkg.bin] : Object.values(pkg?.bin ?? {})),
+    ...exportTargets(pkg?.exports),
+    // nx paths are relative to the workspace root
+    ...Object.values(project?.targets ?? {}).map(t => t.options?.main),
+  ]
+    .filter((entry): entry is string => typeof entry === "string" && entry.length > 0)
+    .map(entry => entry.replace(/^\.\//, "").replace(new RegExp(`^${escapeRegExp(dir)}/`), ""));
+
+  return {
+    name: pkg?.name ?? project?.name ?? posix.basename(dir),
+    path: dir,
+    description: pkg?.description,
+    entryPoints: [...new Set(entryPoints)].slice(0, MAX_ENTRY_POINTS),
+    scripts,
+    dependsOn: [],
+    deps: [
+      ...Object.keys(pkg?.dependencies ?? {}),
+      ...Object.keys(pkg?.devDependencies ?? {}),
+      ...Object.keys(pkg?.peerDependencies ?? {}),
+      ...(project?.implicitDependencies ?? []).filter(dep => !dep.startsWith("!")),
+    ],
+  };
+}
+
+/**
+ * The file paths in an `exports` map, however deeply it's nested by condition
+ */
+function exportTargets(exports: unknown): string[] {
+  if (typeof exports === "string") return [exports];
+  if (Array.isArray(exports)) return exports.flatMap(exportTargets);
+  if (exports && typeof exports === "object") return Object.values(exports).flatMap(exportTargets);
+  return [];
+}
+
+async function readJson<T>(path: string): Promise<T | undefined> {
+  if (!existsSync(path)) return undefined;
+  try {
+    return JSON.parse(await readFile(path, "utf-8")) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+function trimPattern(pattern: string): string {
+  return pattern.trim().replace(/^\.\//, "").replace(/\/+$/, "");
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^["']|["']$/g, "");
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,77 @@
+import { expect, test } from "bun:test";
+import { buildBundle, type BundleOptions } from "../src/bundle.js";
+import { Categories } from "../src/categories.js";
+import { countTokens } from "../src/tokens.js";
+import type { FileAnalysis, FileCategory } from "../src/types.js";
+
+const CATEGORIES: FileCategory[] = ["schema", "router", "service", "util"];
+
+// Every file's details run to about 500 tokens, so demoting one file saves a little more than that
+function files(count: number): FileAnalysis[] {
+  return Array.from({ length: count }, (_, i) => ({
+    path: `/project/src/mod${i % 10}/file${i}.ts`,
+    relativePath: `src/mod${i % 10}/file${i}.ts`,
+    category: CATEGORIES[i % CATEGORIES.length],
+    hash: `hash${i}`,
+    model: "anthropic/claude-sonnet-4-5",
+    tokens: { input: 0, output: 0 },
+    notes: {
+      purpose: `Handles step ${i} of the order pipeline.`,
+      exports: [{ name: `step${i}`, kind: "function", signature: `step${i}(order: Order): Promise<Order>`, description: "Runs the step" }],
+      endpoints: [],
+      props: [],
+      envVars: [],
+      details: `Validates the order, applies rule ${i} and records the result. `.repeat(40),
+      searchTerms: ["order", `step${i}`],
+    },
+  }));
+}
+
+function options(maxTokens: number): BundleOptions {
+  return {
+    maxTokens,
+    projectName: "shop",
+    categories: new Categories(),
+    rollups: new Map(),
+    outputFile: "CLIFFNOTES.md",
+  };
+}
+
+test("an ample budget keeps every file at full detail", async () => {
+  const { content, report } = await buildBundle(files(40), options(1_000_000));
+  expect(report.fits).toBe(true);
+  expect(report.full).toBe(40);
+  expect(report.tokens).toBe(await countTokens(content));
+});
+
+test("a tight budget lands at or just under maxTokens", async () => {
+  const all = files(150);
+  const full = (await buildBundle(all, options(1_000_000))).report.tokens;
+
+  for (const maxTokens of [Math.round(full * 0.8), Math.round(full * 0.5)]) {
+    const { content, report } = await buildBundle(all, options(maxTokens));
+    expect(report.fits).toBe(true);
+    expect(report.tokens).toBe(await countTokens(content));
+    expect(report.tokens).toBeLessThanOrEqual(maxTokens);
+    // Cuts the batch didn't need are restored, so less than one cut's worth is left unused
+    expect(maxTokens - report.tokens).toBeLessThan(1000);
+  }
+}, 30_000);
+
+test("lower priority categories are cut first", async () => {
+  const all = files(100);
+  const full = (await buildBundle(all, options(1_000_000))).report.tokens;
+  // Enough to cut every utility and some services, but no schema or router
+  const { content } = await buildBundle(all, options(Math.round(full * 0.7)));
+
+  expect(content).toContain("Validates the order, applies rule 0 and");
+  expect(content).toContain("Validates the order, applies rule 1 and");
+  expect(content).not.toContain("Validates the order, applies rule 3 and");
+});
+
+test("reports when even the most condensed form doesn't fit", async () => {
+  const { report } = await buildBundle(files(100), options(50));
+  expect(report.fits).toBe(false);
+  expect(report.tokens).toBeGreaterThan(50);
+  expect(report.collapsedFolders.length).toBeGreaterThan(0);
+});
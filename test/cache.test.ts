@@ -0,0 +1,114 @@
+import { expect, test } from "bun:test";
+import {
+  collectGarbage,
+  computeFingerprint,
+  findCacheEntry,
+  getCacheEntry,
+  LEGACY_MODEL_ID,
+  parseCache,
+  pruneCache,
+  setCacheEntry,
+  setChunkEntry,
+} from "../src/cache.js";
+import { seedCache } from "../src/committed.js";
+import type { CacheData, CacheEntry, FileNotes } from "../src/types.js";
+
+const MODEL = "anthropic/claude-sonnet-4-5";
+const FINGERPRINT = computeFingerprint(["prompt", "service", MODEL]);
+
+function notes(purpose: string): FileNotes {
+  return { purpose, exports: [], endpoints: [], props: [], envVars: [], details: "", searchTerms: [] };
+}
+
+function entry(hash: string, extra: Partial<CacheEntry> = {}): CacheEntry {
+  return {
+    hash,
+    notes: notes(`Notes for ${hash}`),
+    category: "service",
+    analyzedAt: "2025-01-01T00:00:00.000Z",
+    tokens: { input: 100, output: 20 },
+    ...extra,
+  };
+}
+
+function emptyCache(): CacheData {
+  return { version: 2, files: {}, entries: {} };
+}
+
+test("v1 caches migrate to entries keyed by content, one path each", () => {
+  const cache = parseCache({
+    version: 1,
+    entries: {
+      "src/a.ts": entry("aaa"),
+      "src/b.ts": { ...entry("bbb", { model: MODEL }), notes: undefined, summary: "## src/b.ts\n\nDoes b." },
+    },
+  })!;
+
+  expect(cache.version).toBe(2);
+  expect(Object.keys(cache.files).sort()).toEqual(["src/a.ts", "src/b.ts"]);
+  // Entries from before model selection came from the legacy model
+  expect(getCacheEntry(cache, "src/a.ts")?.model).toBe(LEGACY_MODEL_ID);
+  expect(getCacheEntry(cache, "src/b.ts")?.model).toBe(MODEL);
+  expect(getCacheEntry(cache, "src/b.ts")?.notes.purpose).toBeString();
+});
+
+test("unknown cache versions are rejected", () => {
+  expect(parseCache({ version: 99, entries: {} })).toBeUndefined();
+  expect(parseCache(null)).toBeUndefined();
+});
+
+test("a migrated entry is reused at its own path while nothing it recorded changed", () => {
+  const cache = parseCache({ version: 1, entries: { "src/a.ts": entry("aaa", { model: MODEL }) } })!;
+  const current = { hash: "aaa", category: "service", fingerprint: FINGERPRINT, model: MODEL };
+
+  expect(findCacheEntry(cache, "src/a.ts", current)?.fingerprint).toBe(FINGERPRINT);
+  expect(findCacheEntry(cache, "src/copy.ts", current)).toBeUndefined();
+  expect(findCacheEntry(cache, "src/a.ts", { ...current, hash: "changed" })).toBeUndefined();
+  expect(findCacheEntry(cache, "src/a.ts", { ...current, category: "router" })).toBeUndefined();
+  expect(findCacheEntry(cache, "src/a.ts", { ...current, model: "openai/gpt-4o" })).toBeUndefined();
+});
+
+test("entries are found by content and fingerprint from any path", () => {
+  const cache = emptyCache();
+  setCacheEntry(cache, "src/a.ts", entry("aaa", { model: MODEL, fingerprint: FINGERPRINT }));
+  const current = { hash: "aaa", category: "service", fingerprint: FINGERPRINT, model: MODEL };
+
+  expect(findCacheEntry(cache, "src/renamed.ts", current)?.notes.purpose).toBe("Notes for aaa");
+  expect(findCacheEntry(cache, "src/a.ts", { ...current, fingerprint: "other-prompt" })).toBeUndefined();
+});
+
+test("identical files share one entry", () => {
+  const cache = emptyCache();
+  const shared = entry("aaa", { model: MODEL, fingerprint: FINGERPRINT });
+  setCacheEntry(cache, "src/a.ts", shared);
+  setCacheEntry(cache, "src/copy.ts", shared);
+
+  expect(Object.keys(cache.entries)).toHaveLength(1);
+  expect(cache.files["src/a.ts"]).toBe(cache.files["src/copy.ts"]);
+});
+
+test("notes seeded from the committed markdown are never a cache hit", () => {
+  const cache = emptyCache();
+  seedCache(cache, { source: "CLIFFNOTES.md", entries: { "src/a.ts": entry("aaa") }, rollups: {} });
+  const current = { hash: "aaa", category: "service", fingerprint: FINGERPRINT, model: MODEL };
+
+  expect(getCacheEntry(cache, "src/a.ts")?.source).toBe("committed");
+  expect(findCacheEntry(cache, "src/a.ts", current)).toBeUndefined();
+});
+
+test("garbage collection drops unreferenced entries and chunks, pruning only paths", () => {
+  const cache = emptyCache();
+  setCacheEntry(cache, "src/a.ts", entry("aaa", { fingerprint: FINGERPRINT, chunks: ["c1"] }));
+  setCacheEntry(cache, "src/gone.ts", entry("ggg", { fingerprint: FINGERPRINT }));
+  const chunk = { summary: "", analyzedAt: "", model: MODEL, tokens: { input: 0, output: 0 } };
+  setChunkEntry(cache, "c1", chunk);
+  setChunkEntry(cache, "orphan", chunk);
+
+  expect(pruneCache(cache, ["src/a.ts"])).toEqual(["src/gone.ts"]);
+  // Chunks of a file that failed partway have no entry yet, so pruning keeps them
+  expect(Object.keys(cache.chunks!).sort()).toEqual(["c1", "orphan"]);
+
+  expect(collectGarbage(cache)).toEqual({ entries: 1, chunks: 1, rollups: 0 });
+  expect(Object.keys(cache.chunks!)).toEqual(["c1"]);
+  expect(getCacheEntry(cache, "src/a.ts")).toBeDefined();
+});
@@ -0,0 +1,95 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+
+/**
+ * What the fake server does with one request instead of answering it
+ */
+export type Fault =
+  | "429-retry-after"   // Rate limited, with `retry-after: 0`
+  | "429"               // Rate limited, no retry-after
+  | "529"               // Anthropic-style "overloaded"
+  | "500"
+  | "drop";             // Connection closed without a response
+
+export interface FakeServer {
+  baseURL: string;                  // For --base-url
+  requests: Map<string, number>;    // Requests seen per file path
+  close(): Promise<void>;
+}
+
+/**
+ * An OpenAI-compatible chat completions endpoint that answers every file
+ * analysis with the same notes - after running through the faults listed
+ * for that file, one per request. Files are recognized by the `FILE:` line
+ * of the analysis prompt.
+ */
+export async function startFakeServer(faults: Record<string, Fault[]> = {}): Promise<FakeServer> {
+  const requests = new Map<string, number>();
+
+  const server = createServer(async (req, res) => {
+    const body = JSON.parse(await readBody(req));
+    const prompt = JSON.stringify(body.messages);
+    const file = prompt.match(/FILE: ([^\\]+)\\n/)?.[1] ?? "";
+
+    const seen = requests.get(file) ?? 0;
+    requests.set(file, seen + 1);
+
+    const fault = faults[file]?.[seen];
+    if (fault === "drop") {
+      req.socket.destroy();
+    } else if (fault) {
+      const status = Number(fault.slice(0, 3));
+      const headers: Record<string, string> = {};
+      if (fault === "429-retry-after") headers["retry-after"] = "0";
+      send(res, status, { error: { message: `injected ${fault}` } }, headers);
+    } else {
+      send(res, 200, completion(body.model, file));
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseURL: `http://127.0.0.1:${port}/v1`,
+    requests,
+    close: () => new Promise(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+function completion(model: string, file: string) {
+  const notes = {
+    purpose: `Fake notes for ${file}`,
+    exports: [{ name: "handler", kind: "function", signature: "handler(): void", description: "" }],
+    endpoints: [],
+    props: [],
+    envVars: [],
+    details: "",
+    searchTerms: ["fake"],
+  };
+  return {
+    id: "fake",
+    object: "chat.completion",
+    created: 0,
+    model,
+    choices: [{ index: 0, message: { role: "assistant", content: JSON.stringify(notes) }, finish_reason: "stop" }],
+    usage: { prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 },
+  };
+}
+
+function send(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { "content-type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", chunk => (data += chunk));
+    req.on("end", () => resolve(data));
+    req.on("error", reject);
+  });
+}
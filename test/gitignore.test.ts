@@ -0,0 +1,75 @@
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { loadIgnoreFilter, type IgnoreFilter } from "../src/gitignore.js";
+
+let rootDir: string;
+let filter: IgnoreFilter;
+
+async function write(path: string, content: string) {
+  await mkdir(dirname(join(rootDir, path)), { recursive: true });
+  await writeFile(join(rootDir, path), content);
+}
+
+beforeAll(async () => {
+  rootDir = await mkdtemp(join(tmpdir(), "cliffnotes-ignore-"));
+  await write(".gitignore", [
+    "# build output",
+    "*.log",
+    "!keep.log",
+    "build/",
+    "logs/",
+    "!logs/important.log",
+    "docs/generated",
+  ].join("\n"));
+  await write("packages/api/.gitignore", "/dist\n!*.local.log\n");
+  await write(".cliffnotesignore", "fixtures/\n!*.log\n");
+  filter = await loadIgnoreFilter(rootDir);
+});
+
+afterAll(async () => {
+  if (rootDir) await rm(rootDir, { recursive: true, force: true });
+});
+
+test("a later negation re-includes a file", () => {
+  expect(filter.ignores("debug.log")).toBe(true);
+  expect(filter.ignores("src/debug.log")).toBe(true);
+  expect(filter.ignores("keep.log")).toBe(false);
+  expect(filter.ignores("src/keep.log")).toBe(false);
+});
+
+test("nothing inside an ignored folder can be re-included", () => {
+  expect(filter.ignores("logs", true)).toBe(true);
+  expect(filter.ignores("logs/important.log")).toBe(true);
+});
+
+test("a trailing slash only matches folders", () => {
+  expect(filter.ignores("build", true)).toBe(true);
+  expect(filter.ignores("build/index.ts")).toBe(true);
+  expect(filter.ignores("src/build/index.ts")).toBe(true);
+  expect(filter.ignores("build")).toBe(false);
+  expect(filter.ignores("src/build.ts")).toBe(false);
+});
+
+test("an inner slash anchors the pattern to its file's folder", () => {
+  expect(filter.ignores("docs/generated/api.ts")).toBe(true);
+  expect(filter.ignores("src/docs/generated/api.ts")).toBe(false);
+});
+
+test("a nested ignore file's patterns are anchored to its own folder", () => {
+  expect(filter.ignores("packages/api/dist/index.js")).toBe(true);
+  expect(filter.ignores("packages/api/src/dist/index.js")).toBe(false);
+  expect(filter.ignores("dist/index.js")).toBe(false);
+  expect(filter.ignores("packages/web/dist/index.js")).toBe(false);
+});
+
+test("a deeper ignore file overrides a shallower one", () => {
+  expect(filter.ignores("packages/api/server.local.log")).toBe(false);
+  expect(filter.ignores("packages/web/server.local.log")).toBe(true);
+});
+
+test(".cliffnotesignore can only leave more out", () => {
+  expect(filter.ignores("fixtures/users.ts")).toBe(true);
+  expect(filter.ignores("debug.log")).toBe(true);
+});
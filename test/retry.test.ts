@@ -0,0 +1,92 @@
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import { getCacheEntry, loadCache } from "../src/cache.js";
+import { startFakeServer, type FakeServer } from "./fake-server.js";
+
+const CLI = resolve(import.meta.dir, "../src/index.ts");
+
+// Each file meets its faults in order, then gets an answer
+const FAULTS = {
+  "ok.ts": [],
+  "rate-limited.ts": ["429-retry-after", "429-retry-after"],
+  "rate-limited-no-header.ts": ["429"],
+  "overloaded.ts": ["529"],
+  "server-error.ts": ["500"],
+  "dropped.ts": ["drop"],
+  "always-failing.ts": ["500", "500", "500"],
+} as const;
+
+const RETRIES = 2;
+
+let server: FakeServer;
+let projectDir: string;
+let exitCode: number;
+
+beforeAll(async () => {
+  server = await startFakeServer(Object.fromEntries(
+    Object.entries(FAULTS).map(([file, faults]) => [file, [...faults]])
+  ));
+
+  projectDir = await mkdtemp(join(tmpdir(), "cliffnotes-retry-"));
+  await writeFile(join(projectDir, "package.json"), JSON.stringify({ name: "retry-fixture" }));
+  for (const file of Object.keys(FAULTS)) {
+    await writeFile(join(projectDir, file), `export function handler() { return "${file}"; }\n`);
+  }
+
+  const run = Bun.spawn([
+    process.execPath, CLI, projectDir,
+    "--provider", "openai-compatible",
+    "--base-url", server.baseURL,
+    "--model", "fake",
+    "--retries", String(RETRIES),
+    "--no-rollups",
+    "--no-architecture",
+  ], {
+    env: { ...process.env, OPENAI_API_KEY: "test" },
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  exitCode = await run.exited;
+}, 60_000);
+
+afterAll(async () => {
+  await server?.close();
+  if (projectDir) await rm(projectDir, { recursive: true, force: true });
+});
+
+test("retries every injected fault until the call succeeds", () => {
+  for (const [file, faults] of Object.entries(FAULTS)) {
+    if (file === "always-failing.ts") continue;
+    expect(server.requests.get(file)).toBe(faults.length + 1);
+  }
+});
+
+test("gives up after --retries attempts", () => {
+  expect(server.requests.get("always-failing.ts")).toBe(RETRIES + 1);
+});
+
+test("keeps failures out of the cache", async () => {
+  const cache = await loadCache(join(projectDir, ".cliffnotes-cache.json"));
+  expect(getCacheEntry(cache, "always-failing.ts")).toBeUndefined();
+  for (const file of Object.keys(FAULTS)) {
+    if (file === "always-failing.ts") continue;
+    expect(getCacheEntry(cache, file)?.notes.purpose).toBe(`Fake notes for ${file}`);
+  }
+});
+
+test("writes notes for the files that succeeded", async () => {
+  const notes = await readFile(join(projectDir, "CLIFFNOTES.md"), "utf-8");
+  for (const file of Object.keys(FAULTS)) {
+    if (file === "always-failing.ts") {
+      expect(notes).not.toContain(`## ${file}\n`);
+    } else {
+      expect(notes).toContain(`## ${file}\n`);
+    }
+  }
+});
+
+test("exits non-zero when a file failed", () => {
+  expect(exitCode).not.toBe(0);
+});
@@ -0,0 +1,77 @@
+import { expect, test } from "bun:test";
+import { searchNotes, tokenize, type SearchDocument } from "../src/search.js";
+import type { FileCategory } from "../src/types.js";
+
+function doc(path: string, summary: string, options: { category?: FileCategory; searchTerms?: string[] } = {}): SearchDocument {
+  return {
+    path,
+    category: options.category ?? "service",
+    summary,
+    notes: {
+      purpose: summary,
+      exports: [],
+      endpoints: [],
+      props: [],
+      envVars: [],
+      details: "",
+      searchTerms: options.searchTerms ?? [],
+    },
+  };
+}
+
+const filler = "Handles requests, validates input and logs the outcome for later review.";
+
+test("identifiers are split into their parts", () => {
+  expect(tokenize("createUserSession")).toEqual(["createusersession", "create", "user", "session"]);
+  expect(tokenize("MAX_RETRY_COUNT")).toEqual(["max_retry_count", "max", "retry", "count"]);
+});
+
+test("a rare term outweighs one every file mentions", () => {
+  const documents = [
+    doc("src/users.ts", `Loads a user. ${filler}`),
+    doc("src/profile.ts", `Edits a user profile. ${filler}`),
+    doc("src/invoices.ts", `Creates an invoice for a user. ${filler}`),
+  ];
+
+  const results = searchNotes(documents, "user invoice");
+  expect(results[0].path).toBe("src/invoices.ts");
+  expect(results[0].matched).toEqual(["user", "invoice"]);
+  expect(results).toHaveLength(3);
+});
+
+test("more mentions in a shorter summary rank higher", () => {
+  const documents = [
+    doc("src/a.ts", `Session store: creates, refreshes and expires each session. ${filler}`),
+    doc("src/b.ts", `Mentions a session once. ${filler} ${filler} ${filler}`),
+    doc("src/c.ts", filler),
+  ];
+
+  expect(searchNotes(documents, "session").map(r => r.path)).toEqual(["src/a.ts", "src/b.ts"]);
+});
+
+test("search terms, path and category boost a match", () => {
+  const summary = `Sends a billing reminder. ${filler}`;
+  const documents = [
+    doc("src/plain.ts", summary),
+    doc("src/tagged.ts", summary, { searchTerms: ["billing"] }),
+    doc("src/billing/reminder.ts", summary),
+  ];
+
+  const results = searchNotes(documents, "billing");
+  expect(results.map(r => r.path)).toEqual(["src/tagged.ts", "src/billing/reminder.ts", "src/plain.ts"]);
+
+  const byCategory = searchNotes([doc("src/a.ts", summary), doc("src/b.ts", summary, { category: "router" })], "router");
+  expect(byCategory.map(r => r.path)).toEqual(["src/b.ts"]);
+});
+
+test("the snippet is the summary line that matched", () => {
+  const [result] = searchNotes([doc("src/a.ts", "## src/a.ts\n\nFirst line.\n\nRotates the signing keys.")], "signing keys");
+  expect(result.snippet).toContain("Rotates the signing keys");
+});
+
+test("results are limited, and nothing matches an empty query", () => {
+  const documents = Array.from({ length: 20 }, (_, i) => doc(`src/f${i}.ts`, `Cache helper ${i}.`));
+  expect(searchNotes(documents, "cache", 5)).toHaveLength(5);
+  expect(searchNotes(documents, "  ")).toEqual([]);
+  expect(searchNotes(documents, "unrelated")).toEqual([]);
+});